@@ -4,6 +4,10 @@ import ora from 'ora'
 import fetch from 'node-fetch'
 import { findConfigFile, loadConfig, normalizeConfig } from '../utils/config.js'
 import { requireAuth, FO_API_BASE } from '../utils/auth.js'
+import { describeHitlPolicy } from '../../src/hitl.js'
+import { describeJsonSchema } from '../utils/schema.js'
+import { describeDatastore, serializeContext, type DeployedContext } from '../utils/context.js'
+import type { HitlMode, HitlPolicy } from '../../src/types.js'
 
 export function makeDeployCommand(): Command {
   return new Command('deploy')
@@ -15,7 +19,7 @@ export function makeDeployCommand(): Command {
 interface DeployPayload {
   agentName: string
   agentEmail: string
-  repo?: string
+  repo?: string | undefined
   tools: {
     email: boolean
     calendar: boolean
@@ -24,14 +28,42 @@ interface DeployPayload {
       name: string
       description: string
       parameters: Record<string, unknown>
+      /** JSON Schema for the action's result, when it declares an `output` schema */
+      output?: Record<string, unknown>
       env: string[]
-      hitl: string
+      /** A mode, or a policy Fo evaluates against each call */
+      hitl: HitlMode | HitlPolicy
+      /** 'async' actions answer 202 and report back via /actions/complete */
+      mode: string
+      /** Fo stops waiting for the action after this many milliseconds */
+      timeoutMs?: number
+      /** Fo throttles calls to stay within these limits */
+      rateLimit?: { perMinute?: number | undefined; concurrency?: number | undefined }
       webhookUrl: string
-      webhookSecret: string
+      /** `'ed25519'` calls are signed with Fo's private key instead of a shared secret */
+      signatureScheme: 'sha256' | 'ed25519'
+      /** Secret Fo signs with (the newest active secret). Omitted for `'ed25519'`. */
+      webhookSecret?: string
+      /** All active secrets, newest first — more than one while rotating */
+      webhookSecrets?: string[]
     }>
+    /** Where Fo sends approval.requested / approval.resolved events */
+    approvals?: {
+      webhookUrl: string
+      signatureScheme: 'sha256' | 'ed25519'
+      webhookSecret?: string
+      webhookSecrets?: string[]
+    }
   }
-  schedules: Array<{ name: string; cron: string; timezone?: string; prompt: string }>
-  triggers: Array<{ name: string; prompt: string }>
+  schedules: Array<{ name: string; cron: string; timezone?: string | undefined; prompt: string }>
+  /** Ingestion tool and datastore connectors. Credentials are env var references. */
+  context?: DeployedContext
+  triggers: Array<{
+    name: string
+    prompt: string
+    /** JSON Schema for the event payload — Fo validates events against it */
+    schema: Record<string, unknown>
+  }>
   instructions: string
   env: string[]
 }
@@ -74,12 +106,37 @@ async function deployAction(opts: { dryRun: boolean }) {
     name: item.name,
     description: item.description,
     parameters: zodToJsonSchema(item.parameters, { target: 'jsonSchema7' }),
+    ...(item.output ? { output: zodToJsonSchema(item.output, { target: 'jsonSchema7' }) } : {}),
     env: [...item.env],
     hitl: item.hitl ?? 'auto',
+    mode: item.mode ?? 'sync',
+    ...(item.timeoutMs !== undefined ? { timeoutMs: item.timeoutMs } : {}),
+    ...(item.rateLimit ? { rateLimit: item.rateLimit } : {}),
     webhookUrl: item.webhookUrl,
-    webhookSecret: item.webhookSecret,
+    signatureScheme: item.signatureScheme,
+    ...(item.signatureScheme === 'sha256'
+      ? { webhookSecret: item.webhookSecrets[0] ?? '', webhookSecrets: item.webhookSecrets }
+      : {}),
   }))
 
+  // Serialize triggers the same way: the payload schema ships as JSON Schema
+  const triggers = norm.triggers.map((t) => ({
+    name: t.name,
+    prompt: t.prompt,
+    schema: zodToJsonSchema(t.schema, { target: 'jsonSchema7' }),
+  }))
+
+  // Context credentials ship as env var names — refuse to deploy anything else
+  const context = norm.context ? serializeContext(norm.context, norm.env) : undefined
+  if (context && context.problems.length > 0) {
+    console.log(chalk.red('\n  ✗ Context config can\'t be deployed:'))
+    for (const problem of context.problems) {
+      console.log(chalk.red(`    ${problem.item}: ${problem.message}`))
+    }
+    console.log()
+    process.exit(1)
+  }
+
   const payload: DeployPayload = {
     agentName: norm.agentName,
     agentEmail: norm.agentEmail,
@@ -89,9 +146,21 @@ async function deployAction(opts: { dryRun: boolean }) {
       calendar: norm.capabilities.calendar,
       browser: norm.capabilities.browser,
       custom: customActions,
+      ...(norm.approvals
+        ? {
+            approvals: {
+              webhookUrl: norm.approvals.webhookUrl,
+              signatureScheme: norm.approvals.signatureScheme,
+              ...(norm.approvals.signatureScheme === 'sha256'
+                ? { webhookSecret: norm.approvals.webhookSecrets[0] ?? '', webhookSecrets: norm.approvals.webhookSecrets }
+                : {}),
+            },
+          }
+        : {}),
     },
     schedules: norm.schedules,
-    triggers: norm.triggers,
+    ...(context ? { context: context.context } : {}),
+    triggers,
     instructions: norm.instructions ?? '',
     env: norm.env,
   }
@@ -112,6 +181,18 @@ async function deployAction(opts: { dryRun: boolean }) {
   if (customActions.length > 0) {
     console.log(chalk.dim(`    custom:   ${customActions.map((a) => a.name).join(', ')}`))
   }
+  for (const action of customActions) {
+    if (typeof action.hitl !== 'string') {
+      console.log(chalk.dim(`    approval: ${action.name} — ${describeHitlPolicy(action.hitl)}`))
+    }
+  }
+  if (norm.sharedWebhookUrl) {
+    const routed = customActions.filter((a) => a.webhookUrl === norm.sharedWebhookUrl)
+    console.log(chalk.dim(`    router:   ${norm.sharedWebhookUrl}  (${routed.length} action${routed.length === 1 ? '' : 's'})`))
+  }
+  if (payload.tools.approvals) {
+    console.log(chalk.dim(`    approvals: ${payload.tools.approvals.webhookUrl}`))
+  }
   if (payload.schedules.length > 0) {
     console.log()
     console.log(chalk.bold('  Schedules:'))
@@ -119,11 +200,23 @@ async function deployAction(opts: { dryRun: boolean }) {
       console.log(chalk.dim(`    ${s.name}  (${s.cron}${s.timezone ? ` ${s.timezone}` : ''})`))
     }
   }
+  if (payload.context) {
+    const { ingestionTool, datastores } = payload.context
+    console.log()
+    console.log(chalk.bold('  Context:'))
+    if (ingestionTool) {
+      console.log(chalk.dim(`    ingestion: ${ingestionTool.name} → ${ingestionTool.webhookUrl}  (${ingestionTool.schedule}, secret $${ingestionTool.webhookSecret.env})`))
+    }
+    for (const ds of datastores) {
+      console.log(chalk.dim(`    ${ds.type}  ${describeDatastore(ds)}`))
+      if (ds.query) console.log(chalk.dim(`      query: ${ds.query}`))
+    }
+  }
   if (payload.triggers.length > 0) {
     console.log()
     console.log(chalk.bold('  Triggers:'))
     for (const t of payload.triggers) {
-      console.log(chalk.dim(`    ${t.name}`))
+      console.log(chalk.dim(`    ${t.name}  ${describeJsonSchema(t.schema)}`))
     }
   }
   console.log()
@@ -4,6 +4,9 @@ import ora from 'ora'
 import { createServer } from 'http'
 import { findConfigFile, loadConfig, normalizeConfig } from '../utils/config.js'
 import { getStoredCredentials, FO_API_BASE } from '../utils/auth.js'
+import { errorResponse, runAsyncJob, thrownErrorResponse } from '../../src/handler.js'
+import { createActionLogger } from '../../src/logger.js'
+import type { ToolContext } from '../../src/types.js'
 import fetch from 'node-fetch'
 
 export function makeDevCommand(): Command {
@@ -40,6 +43,7 @@ async function devAction(opts: { port: string; email?: string }) {
 
   const agentEmail = opts.email ?? `${norm.agentEmail}-dev@foibleai.com`
   const customItems = norm.customItems
+  let jobCounter = 0
 
   // Start local webhook server for custom actions
   if (customItems.length > 0) {
@@ -65,12 +69,13 @@ async function devAction(opts: { port: string; email?: string }) {
 
         try {
           // In dev mode, skip signature verification for ease of local testing
-          const payload = JSON.parse(body) as { params: Record<string, unknown> }
+          const payload = JSON.parse(body) as { params: Record<string, unknown>; context?: Partial<ToolContext> }
           const parsed = item.parameters.safeParse(payload.params)
 
           if (!parsed.success) {
-            res.writeHead(422, { 'Content-Type': 'application/json' })
-            res.end(JSON.stringify({ error: 'Invalid params', details: parsed.error.issues }))
+            const response = errorResponse(422, 'invalid_params', 'Invalid params', { details: parsed.error.issues })
+            res.writeHead(response.status, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify(response.body))
             return
           }
 
@@ -80,21 +85,62 @@ async function devAction(opts: { port: string; email?: string }) {
             if (val !== undefined) env[key] = val
           }
 
-          const result = await item.execute(parsed.data, {
-            message: (payload as { context?: { message?: unknown } }).context?.message ?? {},
+          const logger = createActionLogger(
+            ({ level, message, fields }) => {
+              const { tool: _tool, requestId: _requestId, agentId: _agentId, durationMs, ...rest } = fields
+              const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : ''
+              const line = `     [${actionName}] ${level === 'info' ? '' : `${level}: `}${message}${extra} (${String(durationMs)}ms)`
+              console.log(level === 'error' ? chalk.red(line) : level === 'warn' ? chalk.yellow(line) : chalk.dim(line))
+            },
+            { tool: actionName, requestId: `dev_${Date.now().toString(36)}`, agentId: agentEmail }
+          )
+
+          const context: ToolContext = {
+            message: payload.context?.message ?? {
+              from: 'dev@localhost',
+              to: agentEmail,
+              subject: '',
+              body: '',
+              threadId: 'dev_thread',
+              messageId: 'dev_message',
+            },
             agent: { name: norm.agentName, email: agentEmail },
             env,
-            log: (msg: string) => console.log(chalk.dim(`     [${actionName}] ${msg}`)),
-          })
+            log: (msg) => logger.info(msg),
+            logger,
+            signal: new AbortController().signal,
+          }
+
+          if (item.mode === 'async') {
+            // Simulate Fo's callback loop: answer 202, then print each report
+            const jobId = `dev_job_${++jobCounter}`
+            res.writeHead(202, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify({ success: true, status: 'accepted', jobId }))
+            console.log(chalk.cyan(`  ⧗ action accepted: ${actionName} (${jobId})`))
+
+            void runAsyncJob(item, parsed.data, context, jobId, async (update) => {
+              if (update.status === 'running') {
+                console.log(chalk.dim(`     [${actionName}] ← progress ${update.progress}%${update.note ? ` — ${update.note}` : ''}`))
+              } else if (update.status === 'completed') {
+                console.log(chalk.green(`  ✓ action done: ${actionName} (${jobId})`))
+                console.log(chalk.dim(`     ← complete: ${JSON.stringify(update.result)}`))
+              } else {
+                console.log(chalk.red(`  ✗ action error: ${actionName} (${jobId}): [${update.code}] ${update.error}`))
+              }
+            })
+            return
+          }
+
+          const result = await item.execute(parsed.data, context)
 
           console.log(chalk.green(`  ✓ action done: ${actionName}`))
           res.writeHead(200, { 'Content-Type': 'application/json' })
           res.end(JSON.stringify({ success: true, result }))
         } catch (err) {
-          const message = err instanceof Error ? err.message : 'Action error'
-          console.log(chalk.red(`  ✗ action error: ${actionName}: ${message}`))
-          res.writeHead(500, { 'Content-Type': 'application/json' })
-          res.end(JSON.stringify({ success: false, error: message }))
+          const response = thrownErrorResponse(err)
+          console.log(chalk.red(`  ✗ action error: ${actionName}: [${response.body.code}] ${response.body.error}`))
+          res.writeHead(response.status, { ...response.headers, 'Content-Type': 'application/json' })
+          res.end(JSON.stringify(response.body))
         }
       })
     })
@@ -0,0 +1,101 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { dirname, join } from 'path'
+import { findConfigFile, loadConfig, normalizeConfig } from '../utils/config.js'
+import { FO_API_BASE } from '../utils/auth.js'
+import {
+  WORKFLOW_MARKER,
+  detectWorkflowDrift,
+  renderScheduleWorkflow,
+  scheduleWorkflowPath,
+} from '../utils/workflows.js'
+
+const WORKFLOWS_DIR = '.github/workflows'
+
+export function makeSchedulesCommand(): Command {
+  const cmd = new Command('schedules')
+  cmd.description('Manage the GitHub Actions workflows that run your schedules')
+
+  cmd
+    .command('export')
+    .description('Write .github/workflows/fo-<schedule>.yml for each schedule')
+    .option('--check', 'Exit with an error if the committed workflows differ from the config')
+    .option('--dir <path>', 'Repository root to write to (default: the directory of fo.config.ts)')
+    .action(exportAction)
+
+  return cmd
+}
+
+async function exportAction(opts: { check?: boolean; dir?: string }) {
+  console.log(chalk.bold(`\n${opts.check ? 'Checking' : 'Exporting'} schedule workflows\n`))
+
+  const configPath = findConfigFile()
+  if (!configPath) {
+    console.log(chalk.red('✗ fo.config.ts not found.'))
+    process.exit(1)
+  }
+
+  let norm: ReturnType<typeof normalizeConfig>
+  try {
+    norm = normalizeConfig(await loadConfig(configPath))
+  } catch (err) {
+    console.log(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`))
+    process.exit(1)
+  }
+
+  const root = opts.dir ?? dirname(configPath)
+  const expected = norm.schedules.map((schedule) => ({
+    path: scheduleWorkflowPath(schedule.name),
+    content: renderScheduleWorkflow(schedule, { agentEmail: norm.agentEmail, apiBase: FO_API_BASE }),
+  }))
+  const drift = detectWorkflowDrift(expected, readGeneratedWorkflows(root))
+
+  if (opts.check) {
+    const drifted = drift.missing.length + drift.outdated.length + drift.orphaned.length
+    for (const path of drift.missing) console.log(chalk.red(`  ✗ ${path} is missing`))
+    for (const path of drift.outdated) console.log(chalk.red(`  ✗ ${path} is out of date`))
+    for (const path of drift.orphaned) console.log(chalk.red(`  ✗ ${path} has no matching schedule`))
+
+    if (drifted > 0) {
+      console.log(chalk.dim('\n  Run `fo schedules export` and commit the result.\n'))
+      process.exit(1)
+    }
+    console.log(chalk.green(`  ✓ ${expected.length} workflow${expected.length === 1 ? '' : 's'} match fo.config.ts\n`))
+    return
+  }
+
+  mkdirSync(join(root, WORKFLOWS_DIR), { recursive: true })
+  for (const workflow of expected) {
+    const status = drift.missing.includes(workflow.path) ? 'created' : drift.outdated.includes(workflow.path) ? 'updated' : 'unchanged'
+    writeFileSync(join(root, workflow.path), workflow.content)
+    console.log(`  ${status === 'unchanged' ? chalk.dim('·') : chalk.green('✓')} ${workflow.path} ${chalk.dim(status)}`)
+  }
+  for (const path of drift.orphaned) {
+    rmSync(join(root, path))
+    console.log(`  ${chalk.yellow('✗')} ${path} ${chalk.dim('removed (schedule no longer in config)')}`)
+  }
+
+  if (expected.length === 0 && drift.orphaned.length === 0) {
+    console.log(chalk.dim('  No schedules in fo.config.ts.'))
+  }
+
+  console.log()
+  console.log(chalk.dim('  Workflows call Fo with the FO_API_KEY repository secret.'))
+  console.log(chalk.dim('  Add `fo schedules export --check` to CI to catch drift.\n'))
+}
+
+/** Workflow files under `root` written by `fo schedules export`, by relative path. */
+function readGeneratedWorkflows(root: string): Map<string, string> {
+  const found = new Map<string, string>()
+  const dir = join(root, WORKFLOWS_DIR)
+  if (!existsSync(dir)) return found
+
+  for (const file of readdirSync(dir)) {
+    if (!/^fo-.+\.ya?ml$/.test(file)) continue
+    const content = readFileSync(join(dir, file), 'utf8')
+    // Leave hand-written workflows that happen to share the prefix alone
+    if (content.includes(`\n${WORKFLOW_MARKER} `)) found.set(`${WORKFLOWS_DIR}/${file}`, content)
+  }
+  return found
+}
@@ -0,0 +1,239 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import ora from 'ora'
+import fetch from 'node-fetch'
+import { randomBytes } from 'crypto'
+import { findConfigFile, loadConfig, normalizeConfig } from '../utils/config.js'
+import { requireAuth, FO_API_BASE } from '../utils/auth.js'
+
+export function makeSecretsCommand(): Command {
+  const cmd = new Command('secrets')
+  cmd.description('Manage webhook secrets for custom actions')
+
+  cmd
+    .command('rotate <action>')
+    .description('Rotate an action\'s webhook secret without downtime')
+    .option('--secret-env <name>', 'Read the new secret from this environment variable (generated if omitted)')
+    .option('--secret-stdin', 'Read the new secret from stdin')
+    .option('--grace <duration>', 'How long Fo keeps accepting the old secret (e.g. 30m, 24h, 7d)', '24h')
+    .option('--dry-run', 'Show what would be deployed without deploying')
+    .action(rotateAction)
+
+  cmd
+    .command('retire <action>')
+    .description('Retire every secret but the newest one immediately')
+    .action(retireAction)
+
+  return cmd
+}
+
+interface RotateSecretsPayload {
+  /** Active secrets, newest first. Fo signs with the first. */
+  secrets: string[]
+  /** When Fo drops every secret but the first (ISO 8601) */
+  retireAt: string
+}
+
+async function rotateAction(
+  actionName: string,
+  opts: { secretEnv?: string; secretStdin?: boolean; grace: string; dryRun?: boolean }
+) {
+  console.log(chalk.bold(`\nRotating webhook secret for ${actionName}\n`))
+
+  const graceMs = parseDuration(opts.grace)
+  if (graceMs === null) {
+    console.log(chalk.red(`✗ Invalid --grace "${opts.grace}". Use a duration like 30m, 24h or 7d.`))
+    process.exit(1)
+  }
+
+  const { norm, item } = await loadAction(actionName)
+
+  // Step 1 — no secret yet: generate one and ask the user to roll it out to their handlers
+  const givenSecret = await readNewSecret(opts)
+  const newSecret = givenSecret ?? randomBytes(32).toString('hex')
+  if (!item.webhookSecrets.includes(newSecret)) {
+    if (givenSecret) {
+      console.log(chalk.yellow(`  ⚠ The new secret is not in ${item.name}'s webhookSecret yet.`))
+    } else {
+      console.log(chalk.bold('  New secret:'))
+      console.log(`    ${newSecret}`)
+    }
+    console.log()
+    console.log(chalk.bold('  Before Fo can switch over:'))
+    console.log(chalk.dim('    1. Store it in your secret manager (e.g. FO_WEBHOOK_SECRET_NEXT).'))
+    console.log(chalk.dim('    2. Accept both secrets in your handler and in fo.config.ts, newest first:'))
+    console.log(chalk.dim('         secret: [process.env.FO_WEBHOOK_SECRET_NEXT!, process.env.FO_WEBHOOK_SECRET!]'))
+    console.log(chalk.dim('    3. Deploy your handler, then run:'))
+    console.log(chalk.dim(`         fo secrets rotate ${actionName} --secret-env FO_WEBHOOK_SECRET_NEXT --grace ${opts.grace}`))
+    console.log()
+    return
+  }
+
+  // Step 2 — the config (and so the handler) accepts the new secret: deploy both to Fo
+  const secrets = [newSecret, ...item.webhookSecrets.filter((s) => s !== newSecret)]
+  if (secrets.length < 2) {
+    console.log(chalk.yellow('  ⚠ Only one active secret — nothing to retire. Deploying it as the sole secret.'))
+  }
+
+  const payload: RotateSecretsPayload = {
+    secrets,
+    retireAt: new Date(Date.now() + graceMs).toISOString(),
+  }
+
+  console.log(chalk.dim(`    Active secrets: ${secrets.length} (Fo signs with the newest)`))
+  console.log(chalk.dim(`    Retire old at:  ${payload.retireAt}`))
+  console.log()
+
+  if (opts.dryRun) {
+    console.log(chalk.yellow('  Dry run — not deploying. Remove --dry-run to deploy.'))
+    return
+  }
+
+  const creds = requireAuthOrExit()
+  const spinner = ora('Deploying secrets to Fo platform...').start()
+  const ok = await postSecrets(creds.apiKey, `/agents/${norm.agentEmail}/actions/${item.name}/secrets/rotate`, payload)
+  if (!ok.success) {
+    spinner.fail(`Rotation failed: ${ok.message}`)
+    process.exit(1)
+  }
+
+  spinner.succeed('Secrets deployed')
+  console.log()
+  console.log(chalk.dim(`  Fo now signs ${item.name} calls with the new secret.`))
+  console.log(chalk.dim(`  The old secret stops being accepted at ${payload.retireAt}.`))
+  console.log(chalk.dim('  After that, remove it from your handler and fo.config.ts,'))
+  console.log(chalk.dim(`  or run \`fo secrets retire ${actionName}\` to retire it now.\n`))
+}
+
+async function retireAction(actionName: string) {
+  console.log(chalk.bold(`\nRetiring old webhook secrets for ${actionName}\n`))
+
+  const creds = requireAuthOrExit()
+  const { norm, item } = await loadAction(actionName)
+
+  const spinner = ora('Retiring old secrets...').start()
+  const ok = await postSecrets(creds.apiKey, `/agents/${norm.agentEmail}/actions/${item.name}/secrets/retire`, {})
+  if (!ok.success) {
+    spinner.fail(`Retire failed: ${ok.message}`)
+    process.exit(1)
+  }
+
+  spinner.succeed('Old secrets retired')
+  if (item.webhookSecrets.length > 1) {
+    console.log(chalk.dim('\n  Remove the old secret from your handler and fo.config.ts.\n'))
+  }
+}
+
+/**
+ * The new secret from `--secret-env` or `--secret-stdin`, if either is given.
+ * Never taken as an argument, so it stays out of shell history and `ps`.
+ */
+async function readNewSecret(opts: { secretEnv?: string; secretStdin?: boolean }): Promise<string | undefined> {
+  if (opts.secretEnv && opts.secretStdin) {
+    console.log(chalk.red('✗ Pass either --secret-env or --secret-stdin, not both.'))
+    process.exit(1)
+  }
+
+  let secret: string | undefined
+  if (opts.secretEnv) {
+    secret = process.env[opts.secretEnv]
+    if (!secret) {
+      console.log(chalk.red(`✗ ${opts.secretEnv} is not set.`))
+      process.exit(1)
+    }
+  } else if (opts.secretStdin) {
+    const chunks: Buffer[] = []
+    for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk as Buffer))
+    secret = Buffer.concat(chunks).toString('utf8').trim()
+    if (!secret) {
+      console.log(chalk.red('✗ No secret on stdin.'))
+      process.exit(1)
+    }
+  }
+  return secret
+}
+
+function requireAuthOrExit(): ReturnType<typeof requireAuth> {
+  try {
+    return requireAuth()
+  } catch (err) {
+    console.log(chalk.red(err instanceof Error ? err.message : String(err)))
+    process.exit(1)
+  }
+}
+
+async function loadAction(actionName: string) {
+  const configPath = findConfigFile()
+  if (!configPath) {
+    console.log(chalk.red('✗ fo.config.ts not found.'))
+    process.exit(1)
+  }
+
+  let norm: ReturnType<typeof normalizeConfig>
+  try {
+    norm = normalizeConfig(await loadConfig(configPath))
+  } catch (err) {
+    console.log(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`))
+    process.exit(1)
+  }
+
+  const item = norm.customItems.find((i) => i.name === actionName)
+  if (!item) {
+    console.log(chalk.red(`✗ No custom action named "${actionName}" in ${configPath.split('/').pop()}.`))
+    console.log(chalk.dim(`  Known actions: ${norm.customItems.map((i) => i.name).join(', ') || 'none'}`))
+    process.exit(1)
+  }
+
+  // Fo signs ed25519 actions with its own key — there is no shared secret to rotate
+  if (item.signatureScheme === 'ed25519') {
+    console.log(chalk.red(`✗ ${item.name} uses signatureScheme: 'ed25519', so it has no webhook secret to rotate.`))
+    console.log(chalk.dim('  Fo signs its calls with its Ed25519 key; verify them with publicKey in your handler.'))
+    process.exit(1)
+  }
+
+  return { norm, item }
+}
+
+async function postSecrets(
+  apiKey: string,
+  path: string,
+  body: unknown
+): Promise<{ success: true } | { success: false; message: string }> {
+  try {
+    const res = await fetch(`${FO_API_BASE}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+        'X-Fo-SDK-Version': '2.0.0',
+      },
+      body: JSON.stringify(body),
+    })
+
+    if (!res.ok) {
+      const text = await res.text()
+      let message = `HTTP ${res.status}`
+      try {
+        const json = JSON.parse(text) as { error?: string }
+        if (json.error) message = json.error
+      } catch {}
+      return { success: false, message }
+    }
+
+    return { success: true }
+  } catch (err) {
+    return { success: false, message: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+function parseDuration(value: string): number | null {
+  const match = /^(\d+)([mhd])$/.exec(value.trim())
+  if (!match || !match[1] || !match[2]) return null
+  return parseInt(match[1], 10) * (DURATION_UNITS_MS[match[2]] ?? 0)
+}
@@ -3,6 +3,9 @@ import chalk from 'chalk'
 import ora from 'ora'
 import fetch from 'node-fetch'
 import { findConfigFile, loadConfig, normalizeConfig, checkEnvVars } from '../utils/config.js'
+import { nextRuns } from '../../src/cron.js'
+import { describeJsonSchema } from '../utils/schema.js'
+import { datastoreItem, describeDatastore, serializeContext } from '../utils/context.js'
 
 export function makeValidateCommand(): Command {
   return new Command('validate')
@@ -65,7 +68,7 @@ async function validateAction(opts: { ping: boolean }) {
     if (norm.repo) {
       pass('Repo', norm.repo)
     } else {
-      fail('Repo', 'Required when schedules are defined (Fo generates GitHub Actions YAML)')
+      fail('Repo', 'Required when schedules are defined (`fo schedules export` writes GitHub Actions workflows there)')
     }
   }
 
@@ -102,8 +105,8 @@ async function validateAction(opts: { ping: boolean }) {
         continue
       }
 
-      // Check secret present
-      if (!item.webhookSecret) {
+      // Check secret present — Ed25519 actions are verified with Fo's public key instead
+      if (item.signatureScheme === 'sha256' && item.webhookSecrets.length === 0) {
         fail(`  ${actionName}`, `missing webhookSecret`)
         continue
       }
@@ -140,19 +143,76 @@ async function validateAction(opts: { ping: boolean }) {
   if (norm.schedules.length > 0) {
     console.log(chalk.dim(`\n  Schedules (${norm.schedules.length}):`))
     for (const s of norm.schedules) {
+      let runs: Date[]
+      try {
+        runs = nextRuns(s, 3)
+      } catch (err) {
+        fail(`  ${s.name}`, `${s.cron}: ${err instanceof Error ? err.message : String(err)}`)
+        continue
+      }
       pass(`  ${s.name}`, `${s.cron}${s.timezone ? ` (${s.timezone})` : ''}`)
+      for (const run of runs) {
+        console.log(chalk.dim(`      next: ${formatRun(run, s.timezone ?? 'UTC')}`))
+      }
     }
   }
 
   // 8. Triggers
   if (norm.triggers.length > 0) {
     console.log(chalk.dim(`\n  Triggers (${norm.triggers.length}):`))
+    const { zodToJsonSchema } = await import('zod-to-json-schema')
     for (const t of norm.triggers) {
-      pass(`  ${t.name}`, 'event-based')
+      const schema = zodToJsonSchema(t.schema, { target: 'jsonSchema7' }) as Record<string, unknown>
+      // fo.triggers.fire sends an object; anything else can't be validated by Fo
+      if (schema.type !== 'object') {
+        fail(`  ${t.name}`, 'schema must be a z.object() — trigger payloads are JSON objects')
+        continue
+      }
+      pass(`  ${t.name}`, describeJsonSchema(schema))
     }
   }
 
-  // 9. Agent-level env vars
+  // 9. Context — ingestion tool and datastore connectors
+  if (norm.context) {
+    const { context, problems } = serializeContext(norm.context, norm.env)
+    const problemsFor = (item: string) => problems.filter((p) => p.item === item).map((p) => p.message)
+    console.log(chalk.dim(`\n  Context (${(context.ingestionTool ? 1 : 0) + context.datastores.length}):`))
+
+    const tool = norm.context.ingestionTool
+    if (tool) {
+      const label = `  ${tool.name}`
+      const issues = problemsFor(`ingestionTool ${tool.name}`)
+      const { missing } = checkEnvVars([...tool.env])
+      if (missing.length > 0) issues.push(`missing env vars: ${missing.join(', ')}`)
+
+      if (issues.length > 0) {
+        fail(label, issues.join('; '))
+      } else if (opts.ping) {
+        try {
+          await fetch(tool.webhookUrl, {
+            method: 'HEAD',
+            signal: AbortSignal.timeout(5000),
+          })
+          pass(label, `ingestion tool reachable at ${tool.webhookUrl}`)
+        } catch {
+          fail(label, `unreachable: ${tool.webhookUrl}`)
+        }
+      } else {
+        pass(label, `ingestion tool → ${tool.webhookUrl}`)
+      }
+    }
+
+    context.datastores.forEach((ds, i) => {
+      const issues = problemsFor(datastoreItem(i, ds.type))
+      if (issues.length > 0) {
+        fail(`  ${ds.type}`, issues.join('; '))
+      } else {
+        pass(`  ${ds.type}`, describeDatastore(ds))
+      }
+    })
+  }
+
+  // 10. Agent-level env vars
   const agentEnv = norm.env
   if (agentEnv.length > 0) {
     const { missing } = checkEnvVars(agentEnv)
@@ -174,3 +234,18 @@ async function validateAction(opts: { ping: boolean }) {
     console.log(chalk.dim('  Ready to deploy. Run `fo deploy`.\n'))
   }
 }
+
+/** e.g. `Mon, Jan 5, 2026, 09:00 PST` */
+function formatRun(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).format(date)
+}
@@ -5,6 +5,8 @@ import { makeAuthCommand } from './commands/auth.js'
 import { makeValidateCommand } from './commands/validate.js'
 import { makeDeployCommand } from './commands/deploy.js'
 import { makeDevCommand } from './commands/dev.js'
+import { makeSecretsCommand } from './commands/secrets.js'
+import { makeSchedulesCommand } from './commands/schedules.js'
 
 const program = new Command()
 
@@ -19,12 +21,16 @@ Examples:
   ${chalk.dim('$')} fo validate          Check your config before deploying
   ${chalk.dim('$')} fo deploy            Deploy your agent to Fo
   ${chalk.dim('$')} fo deploy --dry-run  Preview what would be deployed
+  ${chalk.dim('$')} fo secrets rotate <action>  Rotate an action's webhook secret
+  ${chalk.dim('$')} fo schedules export  Write GitHub Actions workflows for schedules
   `)
 
 program.addCommand(makeAuthCommand())
 program.addCommand(makeDevCommand())
 program.addCommand(makeValidateCommand())
 program.addCommand(makeDeployCommand())
+program.addCommand(makeSecretsCommand())
+program.addCommand(makeSchedulesCommand())
 
 program.parseAsync(process.argv).catch((err: unknown) => {
   console.error(chalk.red('Error:'), err instanceof Error ? err.message : String(err))
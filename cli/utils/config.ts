@@ -1,6 +1,7 @@
 import { existsSync } from 'fs'
-import { resolve } from 'path'
-import type { FoConfig, FoAgent } from '../../src/types.js'
+import { dirname, relative, resolve, sep } from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+import type { DatastoreConnector, EnvReference, FoConfig, FoAgent, HitlMode, HitlPolicy, WebhookSecret, WebhookSignatureScheme } from '../../src/types.js'
 
 export type AnyAgentConfig = FoConfig | FoAgent
 
@@ -14,35 +15,121 @@ export function findConfigFile(cwd = process.cwd()): string | null {
   return null
 }
 
-export async function loadConfig(configPath: string): Promise<AnyAgentConfig> {
-  if (!configPath.endsWith('.ts')) {
-    const mod = await import(configPath) as { default?: AnyAgentConfig }
-    if (!mod.default) {
-      throw new Error(`${configPath} must have a default export from defineAgent() or defineConfig()`)
-    }
-    return mod.default
+export class ConfigLoadError extends Error {
+  /** Location of the frame that threw, when it can be traced back to user code */
+  readonly location?: { file: string; line: number; column: number }
+
+  constructor(message: string, location?: { file: string; line: number; column: number }) {
+    super(message)
+    this.name = 'ConfigLoadError'
+    if (location) this.location = location
   }
+}
 
-  // TypeScript — pipe through tsx via stdin (no temp files)
-  const { execSync } = await import('child_process')
+/**
+ * Load fo.config.{ts,js,mjs} in-process.
+ *
+ * TypeScript configs are imported through tsx's ESM loader, so the returned
+ * config holds live FoAction / FoTrigger / FoSchedule objects — Zod schemas
+ * and execute functions included — rather than a JSON copy.
+ */
+export async function loadConfig(configPath: string): Promise<AnyAgentConfig> {
   const abs = resolve(configPath)
-  const fileUrl = 'file://' + abs.replace(/\\/g, '/')
-  const script = `import c from ${JSON.stringify(fileUrl)}; process.stdout.write(JSON.stringify(c.default ?? c))`
+  const fileUrl = pathToFileURL(abs).href
 
+  let mod: { default?: unknown }
   try {
-    const raw = execSync('node --input-type=module --import tsx/esm', {
-      input: script,
-      env: { ...process.env },
-      stdio: ['pipe', 'pipe', 'pipe'],
-    }).toString()
-    return JSON.parse(raw) as AnyAgentConfig
+    if (abs.endsWith('.ts')) {
+      const { tsImport } = await importTsx()
+      mod = await tsImport(fileUrl, { parentURL: import.meta.url }) as { default?: unknown }
+    } else {
+      mod = await import(fileUrl) as { default?: unknown }
+    }
   } catch (err) {
-    throw new Error(
-      `Failed to load ${configPath}.\n` +
-      `Make sure tsx is installed: npm install -D tsx\n` +
-      `Error: ${err instanceof Error ? err.message : String(err)}`
+    if (err instanceof ConfigLoadError) throw err
+    throw toConfigLoadError(err, abs)
+  }
+
+  const config = unwrapDefault(mod)
+  if (!config) {
+    throw new ConfigLoadError(`${configPath} must have a default export from defineAgent() or defineConfig()`)
+  }
+
+  const brand = (config as { _brand?: unknown })._brand
+  if (brand !== 'FoAgent' && brand !== 'FoConfig') {
+    throw new ConfigLoadError(
+      `${configPath} default export was not created with defineAgent() or defineConfig(). ` +
+      `Export the result of defineAgent({ ... }) as the default.`
     )
   }
+
+  return config as AnyAgentConfig
+}
+
+async function importTsx(): Promise<typeof import('tsx/esm/api')> {
+  try {
+    return await import('tsx/esm/api')
+  } catch {
+    throw new ConfigLoadError(
+      'Loading fo.config.ts requires tsx, which ships with @fo/sdk but could not be loaded.\n' +
+      'Your install looks broken — reinstall @fo/sdk.'
+    )
+  }
+}
+
+// A .ts config in a CommonJS package is compiled to `module.exports.default`,
+// which surfaces as `mod.default.default` when imported from ESM.
+function unwrapDefault(mod: { default?: unknown }): unknown {
+  const value = mod.default
+  if (
+    value &&
+    typeof value === 'object' &&
+    !('_brand' in value) &&
+    'default' in value
+  ) {
+    return (value as { default: unknown }).default
+  }
+  return value
+}
+
+function toConfigLoadError(err: unknown, configPath: string): ConfigLoadError {
+  const message = err instanceof Error ? err.message : String(err)
+  const stack = err instanceof Error ? err.stack : undefined
+  const location = findUserFrame(stack, dirname(configPath))
+
+  const where = location
+    ? `${relative(process.cwd(), location.file) || location.file}:${location.line}:${location.column}`
+    : relative(process.cwd(), configPath) || configPath
+
+  return new ConfigLoadError(`Failed to load config — ${where}\n  ${message}`, location)
+}
+
+const STACK_FRAME_REGEX = /\(?((?:file:\/\/)?[^\s()]+?):(\d+):(\d+)\)?$/
+
+/**
+ * Find the first stack frame that points into the user's project
+ * (under the config's directory, outside node_modules).
+ */
+function findUserFrame(
+  stack: string | undefined,
+  projectDir: string
+): { file: string; line: number; column: number } | undefined {
+  if (!stack) return undefined
+
+  for (const line of stack.split('\n').slice(1)) {
+    const match = STACK_FRAME_REGEX.exec(line.trim())
+    if (!match) continue
+
+    const [, rawFile, lineNo, column] = match
+    if (!rawFile || !lineNo || !column) continue
+
+    const file = rawFile.startsWith('file://') ? fileURLToPath(rawFile) : rawFile
+    if (!file.startsWith(projectDir) || file.includes(`${sep}node_modules${sep}`)) continue
+
+    return { file, line: parseInt(lineNo, 10), column: parseInt(column, 10) }
+  }
+
+  return undefined
 }
 
 export function checkEnvVars(required: string[]): { missing: string[] } {
@@ -57,24 +144,55 @@ export function checkEnvVars(required: string[]): { missing: string[] } {
 export function normalizeConfig(config: AnyAgentConfig): {
   agentName: string
   agentEmail: string
-  repo?: string
-  instructions?: string
+  repo?: string | undefined
+  instructions?: string | undefined
   env: string[]
   capabilities: { email: boolean; calendar: boolean; browser: boolean }
+  /** Router URL shared by custom actions (`actions.webhookUrl`), if any */
+  sharedWebhookUrl?: string | undefined
+  /** Where Fo sends approval events (`actions.approvals`), if configured */
+  approvals?: { webhookUrl: string; webhookSecrets: string[]; signatureScheme: WebhookSignatureScheme } | undefined
   customItems: Array<{
     name: string
     description: string
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     parameters: any
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    output?: any
     env: readonly string[]
-    hitl?: string
+    hitl?: HitlMode | HitlPolicy
+    mode?: string
+    timeoutMs?: number | undefined
+    rateLimit?: { perMinute?: number | undefined; concurrency?: number | undefined } | undefined
     webhookUrl: string
-    webhookSecret: string
+    /** Active secrets, newest first. Empty when none is configured. */
+    webhookSecrets: string[]
+    signatureScheme: WebhookSignatureScheme
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     execute: (...args: any[]) => Promise<unknown>
   }>
-  schedules: Array<{ name: string; cron: string; timezone?: string; prompt: string }>
-  triggers: Array<{ name: string; prompt: string }>
+  schedules: Array<{ name: string; cron: string; timezone?: string | undefined; prompt: string }>
+  /** `FoAgent.context`, when configured */
+  context?: {
+    ingestionTool?: {
+      name: string
+      description: string
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      parameters: any
+      env: readonly string[]
+      webhookUrl: string
+      webhookSecret: string | EnvReference
+      schedule?: string | undefined
+    } | undefined
+    datastores: DatastoreConnector[]
+  } | undefined
+  triggers: Array<{
+    name: string
+    prompt: string
+    /** Zod schema for the event payload */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    schema: any
+  }>
 } {
   const isV2 = config._brand === 'FoAgent'
 
@@ -95,20 +213,30 @@ export function normalizeConfig(config: AnyAgentConfig): {
         name: reg.action.name,
         description: reg.action.description,
         parameters: reg.action.parameters,
+        output: reg.action.output,
         env: reg.action.env,
         hitl: reg.action.hitl,
-        webhookUrl: reg.webhookUrl,
-        webhookSecret: reg.webhookSecret,
+        mode: reg.action.mode,
+        timeoutMs: reg.action.timeoutMs,
+        rateLimit: reg.action.rateLimit,
+        webhookUrl: reg.webhookUrl ?? (config as import('../../src/types.js').FoAgent).actions.webhookUrl ?? '',
+        webhookSecrets: toSecretList(reg.webhookSecret ?? (config as import('../../src/types.js').FoAgent).actions.webhookSecret),
+        signatureScheme: reg.signatureScheme ?? (config as import('../../src/types.js').FoAgent).actions.signatureScheme ?? 'sha256',
         execute: reg.action.execute,
       }))
     : ((config as import('../../src/types.js').FoConfig).tools.custom ?? []).map((reg) => ({
         name: reg.tool.name,
         description: reg.tool.description,
         parameters: reg.tool.parameters,
+        output: reg.tool.output,
         env: reg.tool.env,
         hitl: reg.tool.hitl,
+        mode: reg.tool.mode,
+        timeoutMs: reg.tool.timeoutMs,
+        rateLimit: reg.tool.rateLimit,
         webhookUrl: reg.webhookUrl,
-        webhookSecret: reg.webhookSecret,
+        webhookSecrets: toSecretList(reg.webhookSecret),
+        signatureScheme: 'sha256' as WebhookSignatureScheme,
         execute: reg.tool.execute,
       }))
 
@@ -121,6 +249,14 @@ export function normalizeConfig(config: AnyAgentConfig): {
     instructions: config.instructions,
     env: config.env ?? [],
     capabilities,
+    sharedWebhookUrl: isV2 ? v2Config.actions.webhookUrl : undefined,
+    approvals: isV2 && v2Config.actions.approvals
+      ? {
+          webhookUrl: v2Config.actions.approvals.webhookUrl,
+          webhookSecrets: toSecretList(v2Config.actions.approvals.webhookSecret),
+          signatureScheme: v2Config.actions.approvals.signatureScheme ?? v2Config.actions.signatureScheme ?? 'sha256',
+        }
+      : undefined,
     customItems,
     schedules: isV2 ? (v2Config.schedules ?? []).map((s) => ({
       name: s.name,
@@ -128,9 +264,31 @@ export function normalizeConfig(config: AnyAgentConfig): {
       timezone: s.timezone,
       prompt: s.prompt,
     })) : [],
+    context: isV2 && v2Config.context
+      ? {
+          ingestionTool: v2Config.context.ingestionTool
+            ? {
+                name: v2Config.context.ingestionTool.action.name,
+                description: v2Config.context.ingestionTool.action.description,
+                parameters: v2Config.context.ingestionTool.action.parameters,
+                env: v2Config.context.ingestionTool.action.env,
+                webhookUrl: v2Config.context.ingestionTool.webhookUrl,
+                webhookSecret: v2Config.context.ingestionTool.webhookSecret,
+                schedule: v2Config.context.ingestionTool.schedule,
+              }
+            : undefined,
+          datastores: v2Config.context.datastores ?? [],
+        }
+      : undefined,
     triggers: isV2 ? (v2Config.triggers ?? []).map((t) => ({
       name: t.name,
       prompt: t.prompt,
+      schema: t.schema,
     })) : [],
   }
 }
+
+function toSecretList(secret: WebhookSecret | undefined): string[] {
+  if (secret === undefined) return []
+  return (typeof secret === 'string' ? [secret] : [...secret]).filter(Boolean)
+}
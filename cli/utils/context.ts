@@ -0,0 +1,114 @@
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { parseCron } from '../../src/cron.js'
+import type { DatastoreType, EnvReference } from '../../src/types.js'
+import type { normalizeConfig } from './config.js'
+
+/** How often Fo syncs a datastore or calls the ingestion tool when no schedule is set */
+export const DEFAULT_SYNC_SCHEDULE = '0 * * * *'
+
+/** `FoAgent.context` as sent to Fo. */
+export interface DeployedContext {
+  ingestionTool?: {
+    name: string
+    description: string
+    parameters: Record<string, unknown>
+    webhookUrl: string
+    webhookSecret: EnvReference
+    schedule: string
+  }
+  datastores: Array<{
+    type: DatastoreType
+    connectionString?: EnvReference
+    apiKey?: EnvReference
+    query?: string
+    schedule: string
+  }>
+}
+
+/** Something that keeps the context config from deploying, and what it belongs to. */
+export interface ContextProblem {
+  /** `ingestionTool fetch_discord` or `datastores[0] notion` */
+  item: string
+  message: string
+}
+
+type NormalizedContext = NonNullable<ReturnType<typeof normalizeConfig>['context']>
+
+/**
+ * Convert the context config to its deploy form. Each credential must be an
+ * env reference (`{ env: 'NAME' }`) to a name the agent declares in `env`,
+ * since Fo only has the agent's declared env. Plain values are reported,
+ * never sent.
+ */
+export function serializeContext(
+  context: NormalizedContext,
+  declaredEnv: readonly string[]
+): { context: DeployedContext; problems: ContextProblem[] } {
+  const problems: ContextProblem[] = []
+
+  const reference = (item: string, field: string, value: string | EnvReference): EnvReference | undefined => {
+    if (typeof value !== 'object' || value === null || typeof value.env !== 'string' || !value.env) {
+      problems.push({ item, message: `${field} must be an env reference like { env: 'NAME' }, not a value` })
+      return undefined
+    }
+    if (!declaredEnv.includes(value.env)) {
+      problems.push({ item, message: `${field} reads ${value.env}, which is not listed in the agent's env` })
+    }
+    return { env: value.env }
+  }
+
+  const schedule = (item: string, cron: string | undefined): string => {
+    const value = cron ?? DEFAULT_SYNC_SCHEDULE
+    try {
+      parseCron(value)
+    } catch (err) {
+      problems.push({ item, message: `invalid schedule "${value}": ${err instanceof Error ? err.message : String(err)}` })
+    }
+    return value
+  }
+
+  const deployed: DeployedContext = { datastores: [] }
+
+  if (context.ingestionTool) {
+    const tool = context.ingestionTool
+    const item = `ingestionTool ${tool.name}`
+    const webhookSecret = reference(item, 'webhookSecret', tool.webhookSecret)
+    deployed.ingestionTool = {
+      name: tool.name,
+      description: tool.description,
+      parameters: zodToJsonSchema(tool.parameters, { target: 'jsonSchema7' }),
+      webhookUrl: tool.webhookUrl,
+      // An unresolved secret is reported as a problem, which blocks deploy
+      webhookSecret: webhookSecret ?? { env: '' },
+      schedule: schedule(item, tool.schedule),
+    }
+  }
+
+  context.datastores.forEach((ds, i) => {
+    const item = datastoreItem(i, ds.type)
+    const connectionString = ds.connectionString ? reference(item, 'connectionString', ds.connectionString) : undefined
+    const apiKey = ds.apiKey ? reference(item, 'apiKey', ds.apiKey) : undefined
+    deployed.datastores.push({
+      type: ds.type,
+      ...(connectionString ? { connectionString } : {}),
+      ...(apiKey ? { apiKey } : {}),
+      ...(ds.query ? { query: ds.query } : {}),
+      schedule: schedule(item, ds.schedule),
+    })
+  })
+
+  return { context: deployed, problems }
+}
+
+/** Credentials and schedule of a datastore for CLI output, e.g. `apiKey=$NOTION_TOKEN  0 0 * * *` */
+export function describeDatastore(ds: DeployedContext['datastores'][number]): string {
+  const credentials = [
+    ds.connectionString ? `connectionString=$${ds.connectionString.env}` : '',
+    ds.apiKey ? `apiKey=$${ds.apiKey.env}` : '',
+  ].filter(Boolean)
+  return [...credentials, ds.schedule].join('  ')
+}
+
+export function datastoreItem(index: number, type: DatastoreType): string {
+  return `datastores[${index}] ${type}`
+}
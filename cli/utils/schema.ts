@@ -0,0 +1,49 @@
+// Compact, TypeScript-like summaries of JSON Schemas for CLI output.
+
+type JsonSchema = Record<string, unknown>
+
+// Deeper objects are shown as `{…}` to keep summaries on one line
+const MAX_DEPTH = 3
+
+/**
+ * Summarize a JSON Schema (as produced by zod-to-json-schema) in one line:
+ * `{ dealName: string, value: number, owner?: { email: string } }`.
+ */
+export function describeJsonSchema(schema: JsonSchema, depth = 0): string {
+  if (Array.isArray(schema.enum)) return schema.enum.map((v) => JSON.stringify(v)).join(' | ')
+  if ('const' in schema) return JSON.stringify(schema.const)
+
+  const variants = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined
+  if (Array.isArray(variants)) return variants.map((v) => describeJsonSchema(v, depth)).join(' | ')
+
+  const type = schema.type
+  if (Array.isArray(type)) return type.map((t) => describeJsonSchema({ ...schema, type: t }, depth)).join(' | ')
+
+  switch (type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, JsonSchema>
+      const keys = Object.keys(properties)
+      if (keys.length === 0) return 'object'
+      if (depth >= MAX_DEPTH) return '{…}'
+
+      const required = new Set((schema.required ?? []) as string[])
+      const fields = keys.map((key) => `${key}${required.has(key) ? '' : '?'}: ${describeJsonSchema(properties[key] ?? {}, depth + 1)}`)
+      return `{ ${fields.join(', ')} }`
+    }
+    case 'array': {
+      const items = schema.items
+      if (typeof items !== 'object' || items === null || Array.isArray(items)) return 'array'
+      const item = describeJsonSchema(items as JsonSchema, depth)
+      return item.includes(' | ') ? `(${item})[]` : `${item}[]`
+    }
+    case 'integer':
+      return 'number'
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'null':
+      return type
+    default:
+      return 'any'
+  }
+}
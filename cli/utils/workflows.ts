@@ -0,0 +1,284 @@
+import { parseCron, utcOffsetMinutes } from '../../src/cron.js'
+
+/** Marks a workflow file as generated, and names the schedule it runs. */
+export const WORKFLOW_MARKER = '# fo-schedule:'
+
+const MINUTES_PER_DAY = 24 * 60
+
+interface ScheduleInput {
+  name: string
+  cron: string
+  timezone?: string | undefined
+}
+
+/** One UTC cron line, and the local UTC offsets (minutes) it stands for. */
+export interface UtcCron {
+  cron: string
+  offsets: number[]
+}
+
+export interface UtcSchedule {
+  crons: UtcCron[]
+  /** Every UTC offset the timezone uses in the year after `from` */
+  offsets: number[]
+  /**
+   * True when the UTC lines fire on more days than the schedule does — a
+   * day field could not be shifted exactly — so the workflow must check the
+   * local date before running.
+   */
+  needsDateCheck: boolean
+}
+
+export function scheduleWorkflowPath(name: string): string {
+  return `.github/workflows/fo-${name}.yml`
+}
+
+/**
+ * Convert a schedule to the UTC cron lines GitHub Actions understands. A
+ * timezone with daylight saving time gets lines for each of its offsets;
+ * the workflow tells them apart at run time.
+ */
+export function toUtcSchedule(schedule: ScheduleInput, from: Date = new Date()): UtcSchedule {
+  const cron = parseCron(schedule.cron)
+  const fields = schedule.cron.trim().split(/\s+/)
+  const offsets = yearOffsets(schedule.timezone ?? 'UTC', from)
+
+  // Already UTC: keep the expression as written
+  if (offsets.length === 1 && offsets[0] === 0) {
+    return { crons: [{ cron: fields.join(' '), offsets }], offsets, needsDateCheck: false }
+  }
+
+  const lines = new Map<string, number[]>()
+  let needsDateCheck = false
+
+  for (const offset of offsets) {
+    // Group the schedule's local times by the UTC day and hour they land on,
+    // then merge hours that share the same minutes into one line
+    const byHour = new Map<string, { dayShift: number; hour: number; minutes: number[] }>()
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const utc = hour * 60 + minute - offset
+        const dayShift = Math.floor(utc / MINUTES_PER_DAY)
+        const time = mod(utc, MINUTES_PER_DAY)
+        const key = `${dayShift}:${Math.floor(time / 60)}`
+        const group = byHour.get(key) ?? { dayShift, hour: Math.floor(time / 60), minutes: [] }
+        group.minutes.push(time % 60)
+        byHour.set(key, group)
+      }
+    }
+
+    const byMinutes = new Map<string, { dayShift: number; minutes: number[]; hours: number[] }>()
+    for (const { dayShift, hour, minutes } of byHour.values()) {
+      const sorted = [...minutes].sort((a, b) => a - b)
+      const key = `${dayShift}:${sorted.join(',')}`
+      const group = byMinutes.get(key) ?? { dayShift, minutes: sorted, hours: [] }
+      group.hours.push(hour)
+      byMinutes.set(key, group)
+    }
+
+    for (const { dayShift, minutes, hours } of byMinutes.values()) {
+      let days: string
+      if (dayShift === 0) {
+        // Same calendar day in UTC: the day fields carry over unchanged
+        days = fields.slice(2).join(' ')
+      } else if (fields[2] !== '*' || fields[3] !== '*') {
+        // Day-of-month and month don't shift cleanly across month ends
+        days = '* * *'
+        needsDateCheck = true
+      } else {
+        days = `* * ${fields[4] === '*' ? '*' : formatList(cron.daysOfWeek.map((d) => mod(d + dayShift, 7)), 0, 6)}`
+      }
+
+      const line = `${formatList(minutes, 0, 59)} ${formatList(hours.sort((a, b) => a - b), 0, 23)} ${days}`
+      const forLine = lines.get(line) ?? []
+      if (!forLine.includes(offset)) forLine.push(offset)
+      lines.set(line, forLine)
+    }
+  }
+
+  return { crons: [...lines].map(([line, lineOffsets]) => ({ cron: line, offsets: lineOffsets })), offsets, needsDateCheck }
+}
+
+/**
+ * Render the GitHub Actions workflow that runs `schedule` on Fo. Output
+ * depends only on its inputs, so re-exporting an unchanged schedule yields
+ * an identical file — which is what drift detection compares.
+ */
+export function renderScheduleWorkflow(
+  schedule: ScheduleInput,
+  options: { agentEmail: string; apiBase: string; from?: Date | undefined }
+): string {
+  const timezone = schedule.timezone ?? 'UTC'
+  const utc = toUtcSchedule(schedule, options.from)
+  const gated = utc.offsets.length > 1 || utc.needsDateCheck
+  const body = JSON.stringify({ agentEmail: options.agentEmail, schedule: schedule.name })
+
+  const lines = [
+    '# Generated by `fo schedules export` from fo.config.ts — do not edit by hand.',
+    `${WORKFLOW_MARKER} ${schedule.name}`,
+    '#',
+    `# Schedule: ${schedule.cron} (${timezone})`,
+  ]
+
+  if (gated) {
+    lines.push(
+      '#',
+      '# GitHub Actions cron runs in UTC only. This workflow triggers at every UTC',
+      `# time the schedule maps to across ${timezone}'s offsets, and the first step`,
+      '# skips triggers that do not match the local time when they fire.',
+    )
+  }
+  if (utc.offsets.length > 1) {
+    lines.push(
+      '#',
+      '# DST caveats:',
+      '#   - Local times skipped when clocks go forward do not run that day.',
+      '#   - Local times repeated when clocks go back run once, at the first occurrence.',
+    )
+  }
+  lines.push(
+    '#',
+    '# GitHub may start scheduled runs late, or skip them under heavy load.',
+    '',
+    `name: 'fo: ${schedule.name}'`,
+    '',
+    'on:',
+    '  schedule:',
+    ...utc.crons.map(({ cron, offsets }) => `    - cron: '${cron}'${gated || timezone !== 'UTC' ? `  # ${offsets.map(formatOffset).join(', ')}` : ''}`),
+    '  workflow_dispatch:',
+    '',
+    'jobs:',
+    '  run:',
+    '    runs-on: ubuntu-latest',
+    '    steps:',
+  )
+
+  if (gated) {
+    lines.push(
+      '      - name: Check local time',
+      '        id: gate',
+      '        env:',
+      `          TZ: ${timezone}`,
+      '          FO_TRIGGER: ${{ github.event.schedule }}',
+      '        run: |',
+      ...gateScript(schedule, utc).map((line) => `          ${line}`),
+    )
+  }
+
+  lines.push(
+    `      - name: Run ${schedule.name} on Fo`,
+    ...(gated ? ["        if: steps.gate.outputs.run == 'true'"] : []),
+    '        env:',
+    '          FO_API_KEY: ${{ secrets.FO_API_KEY }}',
+    '        run: |',
+    `          curl --fail-with-body -sS -X POST '${options.apiBase}/schedules/run' \\`,
+    '            -H "Authorization: Bearer $FO_API_KEY" \\',
+    "            -H 'Content-Type: application/json' \\",
+    `            -d '${body}'`,
+    '',
+  )
+
+  return lines.join('\n')
+}
+
+/**
+ * Compare the generated workflows against what is on disk. `existing` maps
+ * each generated workflow file found (by path) to its content.
+ */
+export function detectWorkflowDrift(
+  expected: ReadonlyArray<{ path: string; content: string }>,
+  existing: ReadonlyMap<string, string>
+): { missing: string[]; outdated: string[]; orphaned: string[] } {
+  const expectedPaths = new Set(expected.map((w) => w.path))
+  return {
+    missing: expected.filter((w) => !existing.has(w.path)).map((w) => w.path),
+    outdated: expected.filter((w) => existing.has(w.path) && existing.get(w.path) !== w.content).map((w) => w.path),
+    orphaned: [...existing.keys()].filter((path) => !expectedPaths.has(path)),
+  }
+}
+
+function gateScript(schedule: ScheduleInput, utc: UtcSchedule): string[] {
+  const skip = (why: string) => `echo "Skipping: ${why}"; exit 0`
+  const script = [
+    'if [ "$GITHUB_EVENT_NAME" = "workflow_dispatch" ]; then',
+    '  echo "run=true" >> "$GITHUB_OUTPUT"',
+    '  exit 0',
+    'fi',
+  ]
+
+  if (utc.offsets.length > 1) {
+    const shiftSeconds = ((utc.offsets[utc.offsets.length - 1] ?? 0) - (utc.offsets[0] ?? 0)) * 60
+    const accepted = utc.crons.flatMap(({ cron, offsets }) => offsets.map((o) => `'${cron}|${formatOffset(o).slice(3).replace(':', '')}'`))
+    script.push(
+      'case "$FO_TRIGGER|$(date +%z)" in',
+      `  ${accepted.join(' | ')}) ;;`,
+      `  *) ${skip('this trigger is for another UTC offset')} ;;`,
+      'esac',
+      // Fire a repeated local time once, at its first occurrence, like nextRuns
+      `if [ "$(date -d "@$(( $(date +%s) - ${shiftSeconds} ))" +%H:%M)" = "$(date +%H:%M)" ]; then`,
+      `  ${skip('this local time already ran before clocks went back')}`,
+      'fi',
+    )
+  }
+
+  if (utc.needsDateCheck) {
+    const cron = parseCron(schedule.cron)
+    const inList = (values: number[], variable: string) => `case " ${values.join(' ')} " in *" $${variable} "*)`
+    const domLimited = cron.daysOfMonth.length < 31
+    const dowLimited = cron.daysOfWeek.length < 7
+
+    script.push('dom=$(date +%-d) month=$(date +%-m) dow=$(date +%w)')
+    if (cron.months.length < 12) {
+      script.push(`${inList(cron.months, 'month')} ;; *) ${skip('not a scheduled month')} ;; esac`)
+    }
+    if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+      // Either day field may match
+      script.push(
+        `${inList(cron.daysOfMonth, 'dom')} ;; *)`,
+        `  ${inList(cron.daysOfWeek, 'dow')} ;; *) ${skip('not a scheduled day')} ;; esac ;;`,
+        'esac',
+      )
+    } else {
+      if (domLimited) script.push(`${inList(cron.daysOfMonth, 'dom')} ;; *) ${skip('not a scheduled day')} ;; esac`)
+      if (dowLimited) script.push(`${inList(cron.daysOfWeek, 'dow')} ;; *) ${skip('not a scheduled weekday')} ;; esac`)
+    }
+  }
+
+  script.push('echo "run=true" >> "$GITHUB_OUTPUT"')
+  return script
+}
+
+/** Distinct UTC offsets in force over the year after `from`, ascending. */
+function yearOffsets(timezone: string, from: Date): number[] {
+  const offsets = new Set<number>()
+  for (let day = 0; day <= 366; day++) {
+    offsets.add(utcOffsetMinutes(new Date(from.getTime() + day * MINUTES_PER_DAY * 60_000), timezone))
+  }
+  return [...offsets].sort((a, b) => a - b)
+}
+
+/** `[0, 1, 2, 3, 10]` → `'0-3,10'`; a full range → `'*'` */
+function formatList(values: number[], min: number, max: number): string {
+  const sorted = [...new Set(values)].sort((a, b) => a - b)
+  if (sorted.length === max - min + 1) return '*'
+
+  const parts: string[] = []
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i] ?? 0
+    let end = start
+    while (sorted[i + 1] === end + 1) end = sorted[++i] ?? end
+    parts.push(end - start >= 2 ? `${start}-${end}` : end > start ? `${start},${end}` : `${start}`)
+  }
+  return parts.join(',')
+}
+
+/** -480 → `'UTC-08:00'` */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+'
+  const abs = Math.abs(minutes)
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`
+}
+
+function mod(n: number, m: number): number {
+  return ((n % m) + m) % m
+}
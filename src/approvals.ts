@@ -0,0 +1,54 @@
+// Approval events: Fo tells your own tools when an action call is waiting on
+// a human, and how it was settled. Parses and dispatches them to handlers.
+
+import { errorResponse, thrownErrorResponse, type HandlerResponse } from './handler.js'
+import type { ApprovalEvent, ApprovalRequestedEvent, ApprovalResolvedEvent } from './types.js'
+
+export interface ApprovalHandlers {
+  /**
+   * A call is waiting for a decision — e.g. post it to Slack with approve and
+   * deny buttons that call `FoClient.approvals.approve/deny`.
+   */
+  onRequested?: ((approval: ApprovalRequestedEvent['approval'], event: ApprovalRequestedEvent) => void | Promise<void>) | undefined
+  /** A call was approved, denied or expired — from any channel, including the Fo dashboard. */
+  onResolved?: ((approval: ApprovalResolvedEvent['approval'], event: ApprovalResolvedEvent) => void | Promise<void>) | undefined
+}
+
+/**
+ * Dispatch a verified approval event body to `handlers`. Answers 200 once the
+ * handler settles; a thrown error answers 500 so Fo redelivers the event.
+ */
+export async function handleApprovalEvent(rawBody: string, handlers: ApprovalHandlers): Promise<HandlerResponse> {
+  let event: unknown
+  try {
+    event = JSON.parse(rawBody)
+  } catch {
+    return errorResponse(400, 'invalid_request', 'Invalid JSON body')
+  }
+
+  if (!isApprovalEvent(event)) {
+    return errorResponse(400, 'invalid_request', 'Body is not an approval event')
+  }
+
+  try {
+    if (event.type === 'approval.requested') {
+      await handlers.onRequested?.(event.approval, event)
+    } else {
+      await handlers.onResolved?.(event.approval, event)
+    }
+  } catch (err) {
+    return thrownErrorResponse(err)
+  }
+
+  return { status: 200, body: { success: true, result: null } }
+}
+
+function isApprovalEvent(value: unknown): value is ApprovalEvent {
+  if (typeof value !== 'object' || value === null) return false
+  const { type, approval } = value as Record<string, unknown>
+  if (type !== 'approval.requested' && type !== 'approval.resolved') return false
+  if (typeof approval !== 'object' || approval === null) return false
+
+  const { id, resolution } = approval as Record<string, unknown>
+  return typeof id === 'string' && (type === 'approval.requested' || (typeof resolution === 'object' && resolution !== null))
+}
@@ -1,4 +1,14 @@
-import type { ContextDocument, ContextEpisode, DatastoreConnector } from './types.js'
+import type { z } from 'zod'
+import { withClientSpan, type Tracer } from './tracing.js'
+import type {
+  ActionJobUpdate,
+  ApprovalRequest,
+  ApprovalStatus,
+  ContextDocument,
+  ContextEpisode,
+  DatastoreConnector,
+  FoTrigger,
+} from './types.js'
 
 const DEFAULT_BASE_URL = 'https://api.foibleai.com/v1'
 
@@ -10,6 +20,11 @@ interface FoClientOptions {
    * Override for self-hosted deployments.
    */
   baseUrl?: string
+  /**
+   * OpenTelemetry tracer. When set, each API call gets a client span and
+   * sends its `traceparent` header. Requires `@opentelemetry/api`.
+   */
+  tracer?: Tracer
 }
 
 interface IngestResult {
@@ -95,6 +110,113 @@ interface TriggersNamespace {
    * ```
    */
   fire(agentEmail: string, triggerName: string, payload: Record<string, unknown>): Promise<void>
+
+  /**
+   * Fire a trigger from its definition. The payload type is inferred from
+   * the trigger's schema, and the payload is validated before it is sent.
+   *
+   * @throws {TriggerPayloadError} with the Zod issues if the payload is invalid
+   *
+   * @example
+   * ```ts
+   * import { dealCreated } from './triggers.js'
+   *
+   * await fo.triggers.fire('atlas', dealCreated, { dealName: 'Acme', value: 240000 })
+   * ```
+   */
+  fire<TSchema extends z.ZodTypeAny>(agentEmail: string, trigger: FoTrigger<TSchema>, payload: z.input<TSchema>): Promise<void>
+
+  /**
+   * A typed client for a set of triggers: one method per key, each taking
+   * that trigger's payload and validating it like `fire`.
+   *
+   * @example
+   * ```ts
+   * const atlas = fo.triggers.bind('atlas', { dealCreated, invoicePaid })
+   *
+   * await atlas.dealCreated({ dealName: 'Acme', value: 240000 })
+   * ```
+   */
+  bind<TTriggers extends Record<string, FoTrigger>>(agentEmail: string, triggers: TTriggers): TriggerClient<TTriggers>
+}
+
+/** Methods returned by `fo.triggers.bind`, keyed like the triggers passed in. */
+export type TriggerClient<TTriggers extends Record<string, FoTrigger>> = {
+  [K in keyof TTriggers]: (payload: z.input<TTriggers[K]['schema']>) => Promise<void>
+}
+
+/**
+ * A payload did not match its trigger's schema. Thrown by `fo.triggers.fire`
+ * before anything is sent.
+ */
+export class TriggerPayloadError extends Error {
+  constructor(readonly triggerName: string, readonly issues: z.ZodIssue[]) {
+    const details = issues.map((issue) => `${issue.path.join('.') || '(payload)'}: ${issue.message}`).join('; ')
+    super(`fo.triggers.fire: invalid payload for trigger "${triggerName}" — ${details}`)
+    this.name = 'TriggerPayloadError'
+  }
+}
+
+interface ActionsNamespace {
+  /**
+   * Report the status of an async action job (`defineAction({ mode: 'async' })`).
+   * Send `running` updates as often as useful, then exactly one `completed`
+   * or `failed` update.
+   *
+   * Handlers call this for you through `AsyncToolContext.complete/fail/progress` —
+   * call it directly only when the job finishes in another process.
+   *
+   * @param jobId   Job id from the handler's 202 response (`context.jobId`)
+   * @param update  Progress, result, or failure
+   *
+   * @example
+   * ```ts
+   * await fo.actions.complete(jobId, { status: 'running', progress: 50, note: 'Half way' })
+   * await fo.actions.complete(jobId, { status: 'completed', result: { rows: 1200 } })
+   * ```
+   */
+  complete(jobId: string, update: ActionJobUpdate): Promise<void>
+}
+
+interface ApprovalDecisionOptions {
+  /** Email address of the person deciding — shown in the Fo dashboard and `ctx.approval` */
+  by: string
+  /** Optional note, e.g. why the call was denied */
+  note?: string | undefined
+}
+
+interface ApprovalsNamespace {
+  /**
+   * List approval requests for an agent, newest first. Defaults to pending ones.
+   *
+   * @example
+   * ```ts
+   * const pending = await fo.approvals.list('atlas')
+   * const denied = await fo.approvals.list('atlas', { status: 'denied' })
+   * ```
+   */
+  list(agentEmail: string, options?: { status?: ApprovalStatus | undefined }): Promise<ApprovalRequest[]>
+
+  /**
+   * Approve a pending call. Fo then runs the action, and `ctx.approval`
+   * tells `execute` who approved it.
+   *
+   * @example
+   * ```ts
+   * await fo.approvals.approve(approval.id, { by: 'jo@acme.com' })
+   * ```
+   */
+  approve(approvalId: string, options: ApprovalDecisionOptions): Promise<ApprovalRequest>
+
+  /**
+   * Deny a pending call. The agent is told the action was not approved.
+   *
+   * @example
+   * ```ts
+   * await fo.approvals.deny(approval.id, { by: 'jo@acme.com', note: 'Discount too deep' })
+   * ```
+   */
+  deny(approvalId: string, options: ApprovalDecisionOptions): Promise<ApprovalRequest>
 }
 
 /**
@@ -121,9 +243,12 @@ interface TriggersNamespace {
 export class FoClient {
   private readonly apiKey: string
   private readonly baseUrl: string
+  private readonly tracer: Tracer | undefined
 
   readonly context: ContextNamespace
   readonly triggers: TriggersNamespace
+  readonly actions: ActionsNamespace
+  readonly approvals: ApprovalsNamespace
 
   constructor(options: FoClientOptions) {
     if (!options.apiKey) {
@@ -132,6 +257,7 @@ export class FoClient {
 
     this.apiKey = options.apiKey
     this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '')
+    this.tracer = options.tracer
 
     this.context = {
       ingest: this._ingestContext.bind(this),
@@ -140,18 +266,45 @@ export class FoClient {
 
     this.triggers = {
       fire: this._fireTrigger.bind(this),
+      bind: (agentEmail, triggers) => {
+        const client: Record<string, (payload: unknown) => Promise<void>> = {}
+        for (const [key, trigger] of Object.entries(triggers)) {
+          client[key] = (payload) => this._fireTrigger(agentEmail, trigger, payload)
+        }
+        return client as TriggerClient<typeof triggers>
+      },
+    }
+
+    this.actions = {
+      complete: this._completeAction.bind(this),
+    }
+
+    this.approvals = {
+      list: this._listApprovals.bind(this),
+      approve: (approvalId, options) => this._decideApproval('approve', approvalId, options),
+      deny: (approvalId, options) => this._decideApproval('deny', approvalId, options),
     }
   }
 
   private async _request(path: string, body: unknown): Promise<unknown> {
     const url = `${this.baseUrl}${path}`
+    const attributes = { 'http.request.method': 'POST', 'url.full': url }
+    return withClientSpan(this.tracer, `fo.client POST ${path}`, attributes, (traceparent) =>
+      this._send(url, body, traceparent)
+    )
+  }
+
+  private async _send(url: string, body: unknown, traceparent: string | undefined): Promise<unknown> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.apiKey}`,
+      'User-Agent': '@fo/sdk',
+    }
+    if (traceparent) headers['traceparent'] = traceparent
+
     const response = await fetch(url, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-        'User-Agent': '@fo/sdk',
-      },
+      headers,
       body: JSON.stringify(body),
     })
 
@@ -216,16 +369,66 @@ export class FoClient {
 
   private async _fireTrigger(
     agentEmail: string,
-    triggerName: string,
-    payload: Record<string, unknown>
+    trigger: string | FoTrigger,
+    payload: unknown
   ): Promise<void> {
     if (!agentEmail) throw new Error('fo.triggers.fire: agentEmail is required')
+    const triggerName = typeof trigger === 'string' ? trigger : trigger.name
     if (!triggerName) throw new Error('fo.triggers.fire: triggerName is required')
 
+    // The payload is sent as given — Fo parses it with the same schema
+    if (typeof trigger !== 'string') {
+      const result = trigger.schema.safeParse(payload)
+      if (!result.success) throw new TriggerPayloadError(triggerName, result.error.issues)
+    }
+
     await this._request('/triggers/fire', {
       agentEmail,
       triggerName,
       payload,
     })
   }
+
+  private async _completeAction(jobId: string, update: ActionJobUpdate): Promise<void> {
+    if (!jobId) throw new Error('fo.actions.complete: jobId is required')
+    if (update.status === 'running' && (update.progress < 0 || update.progress > 100)) {
+      throw new Error('fo.actions.complete: progress must be between 0 and 100')
+    }
+
+    await this._request('/actions/complete', {
+      jobId,
+      ...update,
+    })
+  }
+
+  private async _listApprovals(
+    agentEmail: string,
+    options: { status?: ApprovalStatus | undefined } = {}
+  ): Promise<ApprovalRequest[]> {
+    if (!agentEmail) throw new Error('fo.approvals.list: agentEmail is required')
+
+    const result = await this._request('/approvals/list', {
+      agentEmail,
+      status: options.status ?? 'pending',
+    })
+
+    return (result as { approvals: ApprovalRequest[] }).approvals
+  }
+
+  private async _decideApproval(
+    decision: 'approve' | 'deny',
+    approvalId: string,
+    options: ApprovalDecisionOptions
+  ): Promise<ApprovalRequest> {
+    if (!approvalId) throw new Error(`fo.approvals.${decision}: approvalId is required`)
+    if (!options.by) throw new Error(`fo.approvals.${decision}: by is required`)
+
+    const result = await this._request(`/approvals/${decision}`, {
+      approvalId,
+      by: options.by,
+      ...(options.note !== undefined ? { note: options.note } : {}),
+    })
+
+    return (result as { approval: ApprovalRequest }).approval
+  }
 }
@@ -0,0 +1,285 @@
+// Cron expressions for schedules: a 5-field parser (names, ranges, steps,
+// lists) and fire-time preview in an IANA timezone, with time zone math done
+// through Intl.
+
+import type { FoSchedule, Weekday } from './types.js'
+
+/** A parsed cron expression. Each field lists the values it matches, ascending. */
+export interface CronExpression {
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: number[]
+  months: number[]
+  /** 0 = Sunday … 6 = Saturday (7 is folded into 0) */
+  daysOfWeek: number[]
+  /**
+   * Whether day-of-month / day-of-week were restricted (not `*`). When both
+   * are, a day matches if either does — standard cron semantics.
+   */
+  daysOfMonthRestricted: boolean
+  daysOfWeekRestricted: boolean
+}
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: readonly string[]
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+const FIELDS: readonly FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  // Names map to 1-based months: JAN = 1
+  { name: 'month', min: 1, max: 12, names: ['', ...MONTH_NAMES] },
+  // 7 is accepted as Sunday
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES },
+]
+
+// Longest a month can be — February counts 29 so leap days stay reachable
+const MAX_DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+
+// Far enough ahead to reach any reachable date, including 29 February on a given weekday
+const MAX_SEARCH_DAYS = 366 * 28
+
+/**
+ * Parse a standard 5-field cron expression:
+ * `minute hour day-of-month month day-of-week`.
+ *
+ * Each field takes `*`, values, ranges (`1-5`), steps (`*\/15`, `0-30/10`,
+ * `5/15`) and comma lists. Months and weekdays also take three-letter
+ * names (`JAN`, `MON-FRI`).
+ *
+ * @throws {Error} describing the first invalid field
+ */
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error(`expected 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map((spec, i) => parseField(parts[i] ?? '', spec))
+  const cron: CronExpression = {
+    minutes: minutes ?? [],
+    hours: hours ?? [],
+    daysOfMonth: daysOfMonth ?? [],
+    months: months ?? [],
+    daysOfWeek: [...new Set((daysOfWeek ?? []).map((d) => d % 7))].sort((a, b) => a - b),
+    daysOfMonthRestricted: !parts[2]?.startsWith('*'),
+    daysOfWeekRestricted: !parts[4]?.startsWith('*'),
+  }
+
+  // e.g. '0 0 31 2 *' parses but never fires
+  if (cron.daysOfMonthRestricted && !cron.daysOfWeekRestricted) {
+    const reachable = cron.months.some((m) => cron.daysOfMonth.some((d) => d <= (MAX_DAYS_IN_MONTH[m - 1] ?? 31)))
+    if (!reachable) throw new Error('day-of-month never occurs in the selected months')
+  }
+
+  return cron
+}
+
+/**
+ * The next `n` times a schedule fires after `from` (default: now), evaluated
+ * in the schedule's timezone. Local times skipped by a DST change do not
+ * fire; local times repeated by one fire once, at the first occurrence.
+ *
+ * @example
+ * ```ts
+ * import { nextRuns } from '@fo/sdk'
+ *
+ * nextRuns(weeklyDigest, 3).map((d) => d.toISOString())
+ * // → ['2026-01-05T17:00:00.000Z', '2026-01-12T17:00:00.000Z', '2026-01-19T17:00:00.000Z']
+ * ```
+ */
+export function nextRuns(
+  schedule: Pick<FoSchedule, 'cron' | 'timezone'>,
+  n: number,
+  from: Date = new Date()
+): Date[] {
+  const cron = parseCron(schedule.cron)
+  const timezone = schedule.timezone ?? 'UTC'
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`unknown timezone "${timezone}"`)
+  }
+
+  const runs: Date[] = []
+  if (n <= 0) return runs
+
+  // Walk local calendar days; convert each matching wall-clock time to an instant
+  const start = wallClock(from, timezone)
+  const startDay = Date.UTC(start.year, start.month - 1, start.day)
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS && runs.length < n; offset++) {
+    const date = new Date(startDay + offset * 86_400_000)
+    const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]
+    if (!matchesDay(cron, month, day, date.getUTCDay())) continue
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const instant = fromWallClock({ year, month, day, hour, minute }, timezone)
+        if (instant !== undefined && instant > from.getTime()) {
+          runs.push(new Date(instant))
+          if (runs.length === n) return runs
+        }
+      }
+    }
+  }
+
+  return runs
+}
+
+/** True when `timezone` is an IANA zone this runtime knows. */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Calendar fields of an instant as seen in `timezone`. */
+export interface WallClock {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  weekday: Weekday
+}
+
+// Building a formatter is far slower than using one, and previews format a lot
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/** Read an instant's local date and time in `timezone`. */
+export function wallClock(date: Date, timezone: string): WallClock {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    })
+    formatters.set(timezone, formatter)
+  }
+
+  const parts = formatter.formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? ''
+
+  return {
+    year: Number(part('year')),
+    month: Number(part('month')),
+    day: Number(part('day')),
+    hour: Number(part('hour')),
+    minute: Number(part('minute')),
+    weekday: part('weekday').toLowerCase() as Weekday,
+  }
+}
+
+/**
+ * The instant a local wall-clock time occurs in `timezone` — the earlier one
+ * when a DST change repeats it, undefined when a DST change skips it.
+ */
+export function fromWallClock(local: Omit<WallClock, 'weekday'>, timezone: string): number | undefined {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+
+  // Offsets in force just before and after: they differ only around a DST change
+  const candidates = [...new Set([
+    asUtc - offsetAt(asUtc - 43_200_000, timezone),
+    asUtc - offsetAt(asUtc + 43_200_000, timezone),
+  ])].sort((a, b) => a - b)
+
+  return candidates.find((instant) => {
+    const seen = wallClock(new Date(instant), timezone)
+    return seen.year === local.year && seen.month === local.month && seen.day === local.day &&
+      seen.hour === local.hour && seen.minute === local.minute
+  })
+}
+
+/** `timezone`'s UTC offset at `date`, in minutes (e.g. -480 for PST). */
+export function utcOffsetMinutes(date: Date, timezone: string): number {
+  return offsetAt(date.getTime(), timezone) / 60_000
+}
+
+/** `timezone`'s UTC offset at `instant`, in milliseconds. */
+function offsetAt(instant: number, timezone: string): number {
+  const local = wallClock(new Date(instant), timezone)
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+  return localAsUtc - Math.floor(instant / 60_000) * 60_000
+}
+
+/** Whether a calendar day (weekday 0 = Sunday) matches the day and month fields. */
+function matchesDay(cron: CronExpression, month: number, day: number, weekday: number): boolean {
+  if (!cron.months.includes(month)) return false
+
+  const domMatch = cron.daysOfMonth.includes(day)
+  const dowMatch = cron.daysOfWeek.includes(weekday)
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) return domMatch || dowMatch
+  return domMatch && dowMatch
+}
+
+function parseField(field: string, spec: FieldSpec): number[] {
+  const values = new Set<number>()
+
+  for (const item of field.split(',')) {
+    const [range = '', stepText, extra] = item.split('/')
+    if (extra !== undefined || range === '') throw invalidField(spec, item)
+
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1 || stepText === '') {
+      throw new Error(`invalid step "${stepText ?? ''}" in ${spec.name} field "${item}"`)
+    }
+
+    let low: number
+    let high: number
+    if (range === '*') {
+      [low, high] = [spec.min, spec.max]
+    } else if (range.includes('-')) {
+      const [from = '', to = '', more] = range.split('-')
+      if (more !== undefined) throw invalidField(spec, item)
+      low = parseValue(from, spec)
+      high = parseValue(to, spec)
+      if (low > high) throw new Error(`${spec.name} range "${range}" runs backwards`)
+    } else {
+      low = parseValue(range, spec)
+      // 'a/step' means from a to the end of the field
+      high = stepText === undefined ? low : spec.max
+    }
+
+    for (let v = low; v <= high; v += step) values.add(v)
+  }
+
+  return [...values].sort((a, b) => a - b)
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const byName = text === '' ? -1 : spec.names?.indexOf(text.toUpperCase()) ?? -1
+  if (byName >= 0) return byName
+
+  if (!/^\d+$/.test(text)) {
+    throw new Error(
+      spec.names
+        ? `unknown ${spec.name} "${text}" (use ${spec.min}-${spec.max} or ${spec.names.filter(Boolean).join(', ')})`
+        : `invalid ${spec.name} "${text}" (use ${spec.min}-${spec.max})`
+    )
+  }
+
+  const value = Number(text)
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} ${value} is out of range ${spec.min}-${spec.max}`)
+  }
+  return value
+}
+
+function invalidField(spec: FieldSpec, item: string): Error {
+  return new Error(`invalid ${spec.name} field "${item}"`)
+}
@@ -1,7 +1,17 @@
 import type { z } from 'zod'
-import type { FoAction, HitlMode, ToolContext } from './types.js'
+import type {
+  ActionMode,
+  ActionOutput,
+  ActionRateLimit,
+  AsyncToolContext,
+  FoAction,
+  HitlMode,
+  HitlPolicy,
+  ToolContext,
+} from './types.js'
+import { assertValidHitl } from './hitl.js'
 
-interface DefineActionConfig<TParams extends z.ZodSchema> {
+interface BaseActionConfig<TParams extends z.ZodSchema, TOutput extends z.ZodTypeAny | undefined> {
   /**
    * Unique action name. Used by Fo's agent to identify and call this action.
    * Must be lowercase alphanumeric with underscores (e.g. "create_deal").
@@ -17,25 +27,72 @@ interface DefineActionConfig<TParams extends z.ZodSchema> {
    * Use .describe() on fields to guide the agent on what to pass.
    */
   parameters: TParams
+  /**
+   * Optional Zod schema for the action's result. The handler validates results
+   * against it (a mismatch is a 500 with code `invalid_output`) and `fo deploy`
+   * ships it so the agent knows the shape of the data it gets back.
+   */
+  output?: TOutput
   /**
    * Human-in-the-loop mode.
    * - `'auto'`   — Fo's confidence model decides when to ask for approval (default)
    * - `'always'` — every execution requires explicit approval
    * - `'never'`  — execute without approval (use for read-only / low-risk actions)
+   *
+   * Or a `HitlPolicy` that requires approval only for some calls — by params,
+   * sender, or time of day. Fo enforces it; `evaluateHitl` checks it locally.
    */
-  hitl?: HitlMode
+  hitl?: HitlMode | HitlPolicy
   /**
    * Environment variable names this action requires.
    * Fo validates these are present before deploying and passes them in context.env.
    */
   env?: string[]
+  /**
+   * Maximum run time in milliseconds. When exceeded, `context.signal` aborts
+   * and the handler answers with a 504 `timeout` error. Sent on deploy so Fo
+   * enforces the same limit.
+   */
+  timeoutMs?: number
+  /**
+   * Cap how hard Fo can call this action. The handler rejects calls over the
+   * limit with a 429 and `Retry-After`; `fo deploy` sends the limits so Fo
+   * throttles on its side too.
+   */
+  rateLimit?: ActionRateLimit
+}
+
+interface SyncActionConfig<TParams extends z.ZodSchema, TOutput extends z.ZodTypeAny | undefined>
+  extends BaseActionConfig<TParams, TOutput> {
+  /** Execution mode. `'sync'` (default) returns the result in the webhook response. */
+  mode?: 'sync'
   /**
    * The action implementation. Runs in your infrastructure, not Fo's.
    * Fo calls this via signed webhook — your credentials never leave your servers.
    */
-  execute: (params: z.infer<TParams>, context: ToolContext) => Promise<unknown>
+  execute: (params: z.infer<TParams>, context: ToolContext) => Promise<ActionOutput<TOutput>>
+}
+
+interface AsyncActionConfig<TParams extends z.ZodSchema, TOutput extends z.ZodTypeAny | undefined>
+  extends BaseActionConfig<TParams, TOutput> {
+  /**
+   * `'async'` answers the webhook with `202 Accepted` and a job id right away,
+   * then reports the outcome to Fo. Use for work slower than a gateway timeout.
+   */
+  mode: 'async'
+  /**
+   * The action implementation. Report the result with `context.complete()` /
+   * `context.fail()`, or simply return / throw.
+   */
+  execute: (params: z.infer<TParams>, context: AsyncToolContext) => Promise<ActionOutput<TOutput> | void>
 }
 
+type DefineActionConfig<TParams extends z.ZodSchema, TOutput extends z.ZodTypeAny | undefined> =
+  | SyncActionConfig<TParams, TOutput>
+  | AsyncActionConfig<TParams, TOutput>
+
+const ACTION_MODES: readonly ActionMode[] = ['sync', 'async']
+
 const ACTION_NAME_REGEX = /^[a-z][a-z0-9_]*$/
 
 /**
@@ -56,18 +113,33 @@ const ACTION_NAME_REGEX = /^[a-z][a-z0-9_]*$/
  *     name: z.string().describe('Deal name'),
  *     value: z.number().describe('Deal value in USD'),
  *   }),
- *   hitl: 'auto',
+ *   hitl: { when: { value: { gt: 10000 } } },
  *   env: ['SALESFORCE_TOKEN'],
  *   execute: async ({ name, value }, { env, log }) => {
  *     log(`Creating deal: ${name} ($${value})`)
  *     // ...
  *   },
  * })
+ *
+ * export const exportWarehouse = defineAction({
+ *   name: 'export_warehouse',
+ *   description: 'Run a long warehouse export and return the file URL.',
+ *   parameters: z.object({ table: z.string() }),
+ *   mode: 'async',
+ *   execute: async ({ table }, { progress, complete }) => {
+ *     await progress(10, 'Query started')
+ *     // ...
+ *     await complete({ url: 'https://...' })
+ *   },
+ * })
  * ```
  */
-export function defineAction<TParams extends z.ZodSchema>(
-  config: DefineActionConfig<TParams>
-): FoAction<TParams> {
+export function defineAction<
+  TParams extends z.ZodSchema,
+  TOutput extends z.ZodTypeAny | undefined = undefined,
+>(
+  config: DefineActionConfig<TParams, TOutput>
+): FoAction<TParams, TOutput> {
   if (!ACTION_NAME_REGEX.test(config.name)) {
     throw new Error(
       `Action name "${config.name}" is invalid. ` +
@@ -87,13 +159,43 @@ export function defineAction<TParams extends z.ZodSchema>(
     throw new Error(`Action "${config.name}" description is too long. Maximum 1024 characters.`)
   }
 
+  if (config.timeoutMs !== undefined && (!Number.isInteger(config.timeoutMs) || config.timeoutMs <= 0)) {
+    throw new Error(`Action "${config.name}" timeoutMs must be a positive integer (milliseconds).`)
+  }
+
+  if (config.rateLimit) {
+    const { perMinute, concurrency } = config.rateLimit
+    for (const [key, value] of Object.entries({ perMinute, concurrency })) {
+      if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+        throw new Error(`Action "${config.name}" rateLimit.${key} must be a positive integer.`)
+      }
+    }
+    if (perMinute === undefined && concurrency === undefined) {
+      throw new Error(`Action "${config.name}" rateLimit must set perMinute, concurrency, or both.`)
+    }
+  }
+
+  const hitl = config.hitl ?? 'auto'
+  const shape = (config.parameters as { shape?: unknown }).shape
+  assertValidHitl(config.name, hitl, typeof shape === 'object' && shape !== null ? Object.keys(shape) : undefined)
+
+  const mode = config.mode ?? 'sync'
+  if (!ACTION_MODES.includes(mode)) {
+    throw new Error(`Action "${config.name}" has an invalid mode "${mode}". Must be 'sync' or 'async'.`)
+  }
+
   return {
     name: config.name,
     description: config.description,
     parameters: config.parameters,
+    ...(config.output ? { output: config.output } : {}),
     env: config.env ?? [],
-    hitl: config.hitl ?? 'auto',
-    execute: config.execute,
+    hitl,
+    mode,
+    ...(config.timeoutMs !== undefined ? { timeoutMs: config.timeoutMs } : {}),
+    ...(config.rateLimit ? { rateLimit: { ...config.rateLimit } } : {}),
+    // Async actions are handed an AsyncToolContext by the handler
+    execute: config.execute as FoAction<TParams, TOutput>['execute'],
     _brand: 'FoAction',
   }
 }
@@ -1,11 +1,11 @@
-import type { FoAgent, ActionsConfig, FoSchedule, FoTrigger, AgentIdentity, ContextConfig } from './types.js'
+import type { FoAgent, ActionsConfig, ActionRegistration, FoSchedule, FoTrigger, AgentIdentity, ContextConfig, EnvReference } from './types.js'
 
 interface DefineAgentInput {
   agent: AgentIdentity
   /**
    * GitHub repository slug (e.g. 'acme-corp/atlas-agent').
-   * Required when using schedules or triggers — Fo uses this to generate
-   * the GitHub Actions YAML that runs your scheduled and event-based agents.
+   * Required when using schedules or triggers. `fo schedules export` writes
+   * the GitHub Actions workflows that run your schedules into this repo.
    */
   repo?: string
   actions?: ActionsConfig
@@ -23,12 +23,12 @@ interface DefineAgentInput {
    *   ingestionTool: {
    *     action: fetchDiscordContext,
    *     webhookUrl: 'https://my-app.com/context/discord',
-   *     webhookSecret: process.env.FO_CONTEXT_SECRET!,
+   *     webhookSecret: { env: 'FO_CONTEXT_SECRET' },
    *     schedule: '0 * * * *',
    *   },
    *   datastores: [
-   *     { type: 'notion', apiKey: process.env.NOTION_TOKEN, schedule: '0 0 * * *' },
-   *     { type: 'snowflake', connectionString: process.env.SNOWFLAKE_DSN, query: 'SELECT * FROM crm WHERE updated_at > :last_sync' },
+   *     { type: 'notion', apiKey: { env: 'NOTION_TOKEN' }, schedule: '0 0 * * *' },
+   *     { type: 'snowflake', connectionString: { env: 'SNOWFLAKE_DSN' }, query: 'SELECT * FROM crm WHERE updated_at > :last_sync' },
    *   ],
    * }
    * ```
@@ -125,12 +125,29 @@ export function defineAgent(input: DefineAgentInput): FoAgent {
   if (schedules.length > 0 && !repo) {
     throw new Error(
       `defineAgent: "repo" is required when using schedules. ` +
-      `Fo generates GitHub Actions YAML to run your schedules — it needs the repo to write to.`
+      `Schedules run from GitHub Actions workflows in that repo (see \`fo schedules export\`).`
     )
   }
 
+  // Validate the shared router URL when provided
+  if (actions.webhookUrl !== undefined && !actions.webhookUrl.startsWith('https://')) {
+    throw new Error(
+      `actions.webhookUrl "${actions.webhookUrl}" is invalid. ` +
+      `Must be an HTTPS URL (e.g. "https://my-app.com/fo/actions").`
+    )
+  }
+
+  // Resolve per-action webhook settings against the shared router defaults
+  const custom: ActionRegistration[] = (actions.custom ?? []).map((registration) => ({
+    action: registration.action,
+    webhookUrl: registration.webhookUrl ?? actions.webhookUrl,
+    webhookSecret: registration.webhookSecret ?? actions.webhookSecret,
+    signatureScheme: registration.signatureScheme ?? actions.signatureScheme ?? 'sha256',
+  }))
+
   // Validate custom actions have required fields and correct brand
-  for (const registration of actions.custom ?? []) {
+  const actionNames = new Set<string>()
+  for (const registration of custom) {
     if (!registration.action._brand || registration.action._brand !== 'FoAction') {
       throw new Error(
         'Each custom action must be created with defineAction(). ' +
@@ -138,17 +155,52 @@ export function defineAgent(input: DefineAgentInput): FoAgent {
       )
     }
 
-    if (!registration.webhookUrl.startsWith('https://')) {
+    if (actionNames.has(registration.action.name)) {
+      throw new Error(`Custom action "${registration.action.name}" is registered more than once.`)
+    }
+    actionNames.add(registration.action.name)
+
+    if (!registration.webhookUrl?.startsWith('https://')) {
       throw new Error(
         `Custom action "${registration.action.name}" has an invalid webhookUrl. ` +
-        `Must be an HTTPS URL (e.g. "https://my-app.com/actions/${registration.action.name}").`
+        `Must be an HTTPS URL (e.g. "https://my-app.com/actions/${registration.action.name}"), ` +
+        `or set actions.webhookUrl to share one router URL across actions.`
+      )
+    }
+
+    if (registration.signatureScheme !== 'sha256' && registration.signatureScheme !== 'ed25519') {
+      throw new Error(
+        `Custom action "${registration.action.name}" has an invalid signatureScheme ` +
+        `"${String(registration.signatureScheme)}". Use 'sha256' or 'ed25519'.`
       )
     }
 
-    if (!registration.webhookSecret) {
+    // Ed25519 calls are verified with Fo's public key — no shared secret needed
+    const secrets = registration.webhookSecret
+    if (registration.signatureScheme === 'sha256' && (!secrets || (typeof secrets !== 'string' && !secrets.some(Boolean)))) {
       throw new Error(
         `Custom action "${registration.action.name}" is missing a webhookSecret. ` +
-        `Provide a secret to verify webhook calls from Fo.`
+        `Provide a secret to verify webhook calls from Fo, or use signatureScheme: 'ed25519'.`
+      )
+    }
+  }
+
+  // Validate the approval events webhook when provided
+  if (actions.approvals) {
+    const { webhookUrl, webhookSecret } = actions.approvals
+    const scheme = actions.approvals.signatureScheme ?? actions.signatureScheme ?? 'sha256'
+
+    if (!webhookUrl?.startsWith('https://')) {
+      throw new Error(
+        `actions.approvals.webhookUrl "${String(webhookUrl)}" is invalid. ` +
+        `Must be an HTTPS URL (e.g. "https://my-app.com/fo/approvals").`
+      )
+    }
+
+    if (scheme === 'sha256' && (!webhookSecret || (typeof webhookSecret !== 'string' && !webhookSecret.some(Boolean)))) {
+      throw new Error(
+        `actions.approvals is missing a webhookSecret. ` +
+        `Provide a secret to verify approval events from Fo, or use signatureScheme: 'ed25519'.`
       )
     }
   }
@@ -190,7 +242,7 @@ export function defineAgent(input: DefineAgentInput): FoAgent {
       )
     }
 
-    if (!webhookSecret) {
+    if (!hasCredential(webhookSecret)) {
       throw new Error(
         `context.ingestionTool "${action.name}" is missing a webhookSecret.`
       )
@@ -206,17 +258,17 @@ export function defineAgent(input: DefineAgentInput): FoAgent {
     const sqlTypes = ['snowflake', 'postgres', 'bigquery', 's3']
     const apiTypes = ['notion', 'linear', 'discord']
 
-    if (sqlTypes.includes(ds.type) && !ds.connectionString) {
+    if (sqlTypes.includes(ds.type) && !hasCredential(ds.connectionString)) {
       throw new Error(
         `Datastore connector "${ds.type}" requires a connectionString. ` +
-        `Reference it from an env var: process.env.${ds.type.toUpperCase()}_DSN`
+        `Reference it from an env var: { env: '${ds.type.toUpperCase()}_DSN' }`
       )
     }
 
-    if (apiTypes.includes(ds.type) && !ds.apiKey) {
+    if (apiTypes.includes(ds.type) && !hasCredential(ds.apiKey)) {
       throw new Error(
         `Datastore connector "${ds.type}" requires an apiKey. ` +
-        `Reference it from an env var: process.env.${ds.type.toUpperCase()}_TOKEN`
+        `Reference it from an env var: { env: '${ds.type.toUpperCase()}_TOKEN' }`
       )
     }
   }
@@ -228,7 +280,11 @@ export function defineAgent(input: DefineAgentInput): FoAgent {
       email: actions.email ?? true,
       calendar: actions.calendar ?? true,
       browser: actions.browser ?? false,
-      custom: actions.custom ?? [],
+      webhookUrl: actions.webhookUrl,
+      webhookSecret: actions.webhookSecret,
+      signatureScheme: actions.signatureScheme,
+      approvals: actions.approvals,
+      custom,
     },
     schedules,
     triggers,
@@ -238,3 +294,8 @@ export function defineAgent(input: DefineAgentInput): FoAgent {
     _brand: 'FoAgent',
   }
 }
+
+/** A credential is set when it is a non-empty value or names an env var. */
+function hasCredential(value: string | EnvReference | undefined): boolean {
+  return typeof value === 'object' && value !== null ? typeof value.env === 'string' && value.env !== '' : Boolean(value)
+}
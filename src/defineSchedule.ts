@@ -1,3 +1,4 @@
+import { isValidTimezone, parseCron } from './cron.js'
 import type { FoSchedule } from './types.js'
 
 interface DefineScheduleConfig {
@@ -7,11 +8,13 @@ interface DefineScheduleConfig {
    */
   name: string
   /**
-   * Cron expression defining when this schedule fires.
+   * Cron expression defining when this schedule fires: minute, hour,
+   * day-of-month, month, day-of-week. Fields take values, ranges, steps,
+   * lists and (for months and weekdays) names.
    * Examples:
    * - '0 9 * * MON'    — every Monday at 9am
    * - '0 8 * * 1-5'    — weekdays at 8am
-   * - '0 */6 * * *'    — every 6 hours
+   * - '0 *\/6 * * *'   — every 6 hours
    */
   cron: string
   /**
@@ -36,8 +39,8 @@ const SCHEDULE_NAME_REGEX = /^[a-z][a-z0-9_]*$/
  * Schedules run on a cron — the agent wakes up, reads context,
  * and executes the prompt without any incoming message.
  *
- * Fo auto-generates a GitHub Actions YAML file when you deploy,
- * so schedules run reliably without any infrastructure to manage.
+ * Schedules run from GitHub Actions: `fo schedules export` writes a
+ * workflow for each one, converting its cron and timezone to UTC.
  *
  * @example
  * ```ts
@@ -63,6 +66,22 @@ export function defineSchedule(config: DefineScheduleConfig): FoSchedule {
     throw new Error(`Schedule "${config.name}" must have a non-empty cron expression.`)
   }
 
+  try {
+    parseCron(config.cron)
+  } catch (err) {
+    throw new Error(
+      `Schedule "${config.name}" has an invalid cron expression "${config.cron}": ` +
+      `${err instanceof Error ? err.message : String(err)}.`
+    )
+  }
+
+  if (config.timezone !== undefined && !isValidTimezone(config.timezone)) {
+    throw new Error(
+      `Schedule "${config.name}" has an unknown timezone "${config.timezone}". ` +
+      `Use an IANA name like 'America/Los_Angeles' or 'Europe/London'.`
+    )
+  }
+
   if (!config.prompt.trim()) {
     throw new Error(`Schedule "${config.name}" must have a non-empty prompt.`)
   }
@@ -1,4 +1,5 @@
 import type { z } from 'zod'
+import { assertValidPromptTemplate } from './promptTemplate.js'
 import type { FoTrigger } from './types.js'
 
 interface DefineTriggerConfig<TSchema extends z.ZodSchema> {
@@ -13,10 +14,13 @@ interface DefineTriggerConfig<TSchema extends z.ZodSchema> {
    */
   schema: TSchema
   /**
-   * Prompt template. Use `{{fieldName}}` to interpolate event payload fields.
+   * Prompt template. Use `{{fieldName}}` to interpolate event payload fields,
+   * `{{owner.email}}` for nested ones, and `{{value|currency}}` to format them
+   * (`currency`, `currency:EUR`, `number`, `date`, `upper`, `lower`, `json`).
+   * Every placeholder is checked against `schema`.
    * The agent has full access to configured actions and the context store.
    *
-   * @example 'New deal "{{dealName}}" worth ${{value}}. Notify the founder.'
+   * @example 'New deal "{{dealName}}" worth {{value|currency}}. Notify {{owner.email}}.'
    */
   prompt: string
 }
@@ -27,7 +31,8 @@ const TRIGGER_NAME_REGEX = /^[a-z][a-z0-9_]*$/
  * Define an event-based trigger for your Fo agent.
  *
  * Triggers fire when your system calls `fo.triggers.fire(name, payload)`.
- * The agent receives the interpolated prompt and acts immediately.
+ * The agent receives the interpolated prompt and acts immediately —
+ * `renderTriggerPrompt` shows exactly what it will read.
  *
  * Use triggers for: CRM events, webhook notifications, pipeline completions,
  * or any moment when you want the agent to take proactive action.
@@ -43,7 +48,7 @@ const TRIGGER_NAME_REGEX = /^[a-z][a-z0-9_]*$/
  *     dealName: z.string(),
  *     value: z.number(),
  *   }),
- *   prompt: 'New deal "{{dealName}}" worth ${{value}}. Notify the founder.',
+ *   prompt: 'New deal "{{dealName}}" worth {{value|currency}}. Notify the founder.',
  * })
  * ```
  */
@@ -61,6 +66,8 @@ export function defineTrigger<TSchema extends z.ZodSchema>(
     throw new Error(`Trigger "${config.name}" must have a non-empty prompt.`)
   }
 
+  assertValidPromptTemplate(config.name, config.prompt, config.schema)
+
   return {
     name: config.name,
     schema: config.schema,
@@ -0,0 +1,97 @@
+// Payload encryption for webhook params and responses: AES-256-GCM with a key
+// derived from the webhook secret via HKDF-SHA256. Uses Web Crypto only, so
+// it runs on the same runtimes as the fetch handlers.
+
+import type { webcrypto } from 'node:crypto'
+import { getWebCrypto, resolveSecrets } from './signature.js'
+import type { EncryptedPayload, WebhookSecret } from './types.js'
+
+const HKDF_INFO = 'fo-webhook-encryption-v1'
+const IV_BYTES = 12
+
+export class PayloadDecryptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PayloadDecryptionError'
+  }
+}
+
+/**
+ * Encrypt a JSON value with a key derived from `secret`. Fo uses this for
+ * `WebhookPayload.encryptedParams`; handlers use it for `responses: 'encrypted'`.
+ *
+ * @example
+ * ```ts
+ * const encryptedParams = await encryptPayload({ accountId: 'acme' }, process.env.FO_WEBHOOK_SECRET!)
+ * ```
+ */
+export async function encryptPayload(value: unknown, secret: string): Promise<EncryptedPayload> {
+  const crypto = await getWebCrypto()
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+
+  const key = await deriveKey(crypto.subtle, secret)
+  const plaintext = new TextEncoder().encode(JSON.stringify(value))
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext)
+
+  return { alg: 'A256GCM', iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) }
+}
+
+/**
+ * Decrypt an `EncryptedPayload`. Pass `[newSecret, oldSecret]` while rotating —
+ * each active secret is tried.
+ *
+ * @throws {PayloadDecryptionError} if no secret decrypts the payload
+ */
+export async function decryptPayload(payload: EncryptedPayload, secret: WebhookSecret): Promise<unknown> {
+  if (payload.alg !== 'A256GCM') {
+    throw new PayloadDecryptionError(`Unsupported encryption algorithm "${String(payload.alg)}"`)
+  }
+
+  const { subtle } = await getWebCrypto()
+  const iv = fromBase64(payload.iv)
+  const data = fromBase64(payload.data)
+
+  for (const candidate of resolveSecrets(secret)) {
+    const key = await deriveKey(subtle, candidate)
+    try {
+      const plaintext = await subtle.decrypt({ name: 'AES-GCM', iv }, key, data)
+      return JSON.parse(new TextDecoder().decode(plaintext)) as unknown
+    } catch {
+      // Wrong key (GCM authentication failed) — try the next secret
+    }
+  }
+
+  throw new PayloadDecryptionError('Could not decrypt payload with any active secret')
+}
+
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  if (typeof value !== 'object' || value === null) return false
+  const v = value as Record<string, unknown>
+  return v.alg === 'A256GCM' && typeof v.iv === 'string' && typeof v.data === 'string'
+}
+
+async function deriveKey(subtle: webcrypto.SubtleCrypto, secret: string): Promise<webcrypto.CryptoKey> {
+  const encoder = new TextEncoder()
+  const material = await subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey'])
+  return subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(HKDF_INFO) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function fromBase64(value: string): Uint8Array {
+  try {
+    return Uint8Array.from(atob(value), (c) => c.charCodeAt(0))
+  } catch {
+    throw new PayloadDecryptionError('Encrypted payload is not valid base64')
+  }
+}
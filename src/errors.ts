@@ -0,0 +1,93 @@
+import type { ActionErrorCode } from './types.js'
+
+/**
+ * Base class for errors an action throws on purpose. Each subclass maps to
+ * its own status code and `code` in the webhook response — see
+ * `ActionErrorResponse` in types.ts for the wire format.
+ */
+export abstract class ActionError extends Error {
+  abstract readonly status: number
+  abstract readonly code: ActionErrorCode
+}
+
+/**
+ * A transient failure (rate limit, upstream outage). Fo retries the call,
+ * after `retryAfter` seconds when given.
+ *
+ * @example
+ * ```ts
+ * if (res.status === 503) {
+ *   throw new RetryableActionError('Salesforce is unavailable', { retryAfter: 30 })
+ * }
+ * ```
+ */
+export class RetryableActionError extends ActionError {
+  readonly status = 503
+  readonly code = 'retryable' as const
+  /** Seconds to wait before retrying */
+  readonly retryAfter: number | undefined
+
+  constructor(message: string, options: { retryAfter?: number } = {}) {
+    super(message)
+    this.name = 'RetryableActionError'
+    this.retryAfter = options.retryAfter
+  }
+}
+
+/**
+ * A failure whose message is safe to show the end user verbatim,
+ * e.g. "No deal named Acme found". Fo does not retry it.
+ */
+export class UserFacingActionError extends ActionError {
+  readonly status = 400
+  readonly code = 'user_facing' as const
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'UserFacingActionError'
+  }
+}
+
+/**
+ * The params passed the Zod schema but cannot be used (e.g. an end date
+ * before the start date). Fo may correct the params and call again.
+ */
+export class ActionInputError extends ActionError {
+  readonly status = 422
+  readonly code = 'invalid_input' as const
+  readonly details: unknown
+
+  constructor(message: string, options: { details?: unknown } = {}) {
+    super(message)
+    this.name = 'ActionInputError'
+    this.details = options.details
+  }
+}
+
+/**
+ * The action ran past its `timeoutMs`. Used as `ctx.signal.reason` and
+ * answered with a 504 — actions normally never throw it themselves.
+ */
+export class ActionTimeoutError extends ActionError {
+  readonly status = 504
+  readonly code = 'timeout' as const
+
+  constructor(actionName: string, readonly timeoutMs: number) {
+    super(`Action "${actionName}" timed out after ${timeoutMs}ms`)
+    this.name = 'ActionTimeoutError'
+  }
+}
+
+/**
+ * Fo closed the connection before the action finished. Used as
+ * `ctx.signal.reason`; the response is never delivered.
+ */
+export class ActionCancelledError extends ActionError {
+  readonly status = 499
+  readonly code = 'cancelled' as const
+
+  constructor(actionName: string) {
+    super(`Action "${actionName}" was cancelled because the client disconnected`)
+    this.name = 'ActionCancelledError'
+  }
+}
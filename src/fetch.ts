@@ -0,0 +1,236 @@
+/**
+ * @fo/sdk/fetch — handlers for Fetch-API runtimes
+ *
+ * Next.js App Router, Hono, Bun, Deno and Cloudflare-style workers speak
+ * WHATWG `Request`/`Response`. This entry point does not import Node
+ * built-ins, so it loads on edge runtimes — and neither may any module it
+ * imports.
+ *
+ * @example
+ * ```ts
+ * // app/api/fo/query_crm/route.ts (Next.js App Router)
+ * import { createFetchToolHandler } from '@fo/sdk/fetch'
+ * import queryCrm from '@/actions/query_crm'
+ *
+ * export const POST = createFetchToolHandler(queryCrm, {
+ *   secret: process.env.FO_WEBHOOK_SECRET!,
+ * })
+ * ```
+ */
+
+import {
+  assertVerificationKeys,
+  decryptParams,
+  DEFAULT_MAX_BODY_BYTES,
+  errorResponse,
+  executeTool,
+  isHandlerResponse,
+  parsePayload,
+  assertAsyncSupport,
+  protectResponse,
+  type ExecuteToolOptions,
+  type HandlerResponse,
+  type VerifiedRequest,
+} from './handler.js'
+import {
+  replySecret,
+  signWebhookResponse,
+  verifyWebhookAsync,
+  verifyWebhookResponse,
+  WebhookVerificationError,
+} from './signature.js'
+import { startRequestTrace, type RequestTrace } from './tracing.js'
+import {
+  assertTriggerEndpointOptions,
+  handleTriggerWebhook,
+  type TriggerEndpointOptions,
+} from './triggerEndpoint.js'
+import type { FoTool, FoTrigger, WebhookPublicKey, WebhookSecret } from './types.js'
+
+export { verifyWebhookAsync, signWebhookResponse, verifyWebhookResponse, WebhookVerificationError }
+export { encryptPayload, decryptPayload, PayloadDecryptionError } from './encryption.js'
+export { MemoryIdempotencyStore } from './idempotency.js'
+export { createMetricsRegistry } from './metrics.js'
+export {
+  ActionError,
+  RetryableActionError,
+  UserFacingActionError,
+  ActionInputError,
+  ActionTimeoutError,
+  ActionCancelledError,
+} from './errors.js'
+export { hmacVerifier, stripeVerifier, githubVerifier, hubspotVerifier } from './triggerEndpoint.js'
+export type { TriggerEndpointOptions, TriggerVerifier, InboundWebhook, HmacVerifierOptions } from './triggerEndpoint.js'
+
+interface CreateFetchToolHandlerOptions extends ExecuteToolOptions {
+  /**
+   * Your webhook secret. Must match the secret registered in fo.config.ts.
+   * Pass `[newSecret, oldSecret]` while rotating — either is accepted.
+   */
+  secret?: WebhookSecret | undefined
+  /**
+   * Fo's Ed25519 public key, for actions registered with
+   * `signatureScheme: 'ed25519'`. Set this, `secret`, or both.
+   */
+  publicKey?: WebhookPublicKey | undefined
+  /**
+   * Largest request body accepted, in bytes. Larger bodies are rejected with
+   * a 413 without being buffered. Defaults to 1 MiB.
+   */
+  maxBodyBytes?: number | undefined
+}
+
+type FetchHandler = (req: Request) => Promise<Response>
+
+/**
+ * Create a WHATWG `Request` → `Response` handler for a Fo tool webhook.
+ * Same steps as `createToolHandler`: signature verification (via Web Crypto),
+ * parameter validation, env injection and error mapping.
+ *
+ * @example
+ * ```ts
+ * // Hono
+ * const handler = createFetchToolHandler(queryCrm, { secret: process.env.FO_WEBHOOK_SECRET! })
+ * app.post('/actions/query_crm', (c) => handler(c.req.raw))
+ *
+ * // Cloudflare Worker — pass the bindings as `env` so declared env vars resolve
+ * export default {
+ *   fetch: (req: Request, env: Record<string, string>) =>
+ *     createFetchToolHandler(queryCrm, { secret: env.FO_WEBHOOK_SECRET!, env })(req),
+ * }
+ * ```
+ */
+export function createFetchToolHandler<TParams extends import('zod').ZodSchema>(
+  tool: FoTool<TParams>,
+  options: CreateFetchToolHandlerOptions
+): FetchHandler {
+  assertVerificationKeys(options)
+  assertAsyncSupport([tool], options.client)
+  const keys = { secret: options.secret, publicKey: options.publicKey }
+  const maxBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES
+
+  return async (req) => {
+    const startedAt = Date.now()
+    const trace = await startRequestTrace(options.tracer, req.headers.get('traceparent') ?? undefined)
+    const { response, request } = await handle(req, trace)
+    trace.end(response)
+    options.metrics?.record(tool.name, response, Date.now() - startedAt)
+    return jsonResponse(request ? await protectResponse(response, options.responses, request) : response)
+  }
+
+  async function handle(
+    req: Request,
+    trace: RequestTrace
+  ): Promise<{ response: HandlerResponse; request?: VerifiedRequest }> {
+    if (req.method !== 'POST') {
+      return { response: errorResponse(405, 'method_not_allowed', 'Method not allowed') }
+    }
+
+    // Fo always sends JSON — refuse anything else before reading it
+    const contentType = req.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase()
+    if (contentType !== 'application/json') {
+      return { response: errorResponse(415, 'unsupported_media_type', 'Content-Type must be application/json') }
+    }
+
+    // Read raw body — needed for signature verification
+    const rawBody = await readLimitedBody(req, maxBytes)
+    if (typeof rawBody !== 'string') return { response: rawBody }
+
+    // Verify the call came from Fo
+    let secret: string | undefined
+    try {
+      const verification = await trace.step('fo.verify', () => verifyWebhookAsync(rawBody, req.headers, keys))
+      secret = replySecret(keys, verification)
+    } catch (err) {
+      if (err instanceof WebhookVerificationError) {
+        return { response: errorResponse(401, 'invalid_signature', err.message) }
+      }
+      throw err
+    }
+
+    const payload = parsePayload(rawBody, req.headers.get('x-fo-request-id') ?? undefined)
+    if (isHandlerResponse(payload)) return { response: payload }
+
+    const request = await decryptParams({ payload, secret })
+    if (isHandlerResponse(request)) return { response: request }
+
+    return { response: await executeTool(tool, request.payload, options, { signal: req.signal, trace }), request }
+  }
+}
+
+/**
+ * Create a WHATWG `Request` → `Response` handler that turns a third-party
+ * webhook into a trigger. Same steps as `createTriggerEndpoint`.
+ *
+ * @example
+ * ```ts
+ * // app/api/webhooks/github/route.ts (Next.js App Router)
+ * import { createFetchTriggerEndpoint, githubVerifier } from '@fo/sdk/fetch'
+ *
+ * export const POST = createFetchTriggerEndpoint(prOpened, {
+ *   client: fo,
+ *   agentEmail: 'atlas',
+ *   verify: githubVerifier(process.env.GITHUB_WEBHOOK_SECRET!),
+ *   map: (event: any) => event.action === 'opened'
+ *     ? { repo: event.repository.full_name, title: event.pull_request.title }
+ *     : null,
+ * })
+ * ```
+ */
+export function createFetchTriggerEndpoint<TSchema extends import('zod').ZodTypeAny>(
+  trigger: FoTrigger<TSchema>,
+  options: TriggerEndpointOptions<TSchema>
+): FetchHandler {
+  assertTriggerEndpointOptions(options)
+  const maxBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES
+
+  return async (req) => {
+    if (req.method !== 'POST') {
+      return jsonResponse(errorResponse(405, 'method_not_allowed', 'Method not allowed'))
+    }
+
+    const rawBody = await readLimitedBody(req, maxBytes)
+    if (typeof rawBody !== 'string') return jsonResponse(rawBody)
+
+    const request = { method: req.method, url: req.url, headers: req.headers, rawBody }
+    return jsonResponse(await handleTriggerWebhook(trigger, request, options))
+  }
+}
+
+/**
+ * Read the raw body, stopping as soon as it exceeds `maxBytes`, or return the
+ * error response to send. A declared Content-Length over the limit is
+ * rejected without reading.
+ */
+async function readLimitedBody(req: Request, maxBytes: number): Promise<string | HandlerResponse> {
+  const tooLarge = () => errorResponse(413, 'payload_too_large', `Request body exceeds ${maxBytes} bytes`)
+  if (Number(req.headers.get('content-length') ?? 0) > maxBytes) return tooLarge()
+  if (!req.body) return ''
+
+  const reader = req.body.getReader()
+  const decoder = new TextDecoder()
+  let received = 0
+  let text = ''
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      received += value.byteLength
+      if (received > maxBytes) {
+        await reader.cancel().catch(() => {})
+        return tooLarge()
+      }
+      text += decoder.decode(value, { stream: true })
+    }
+  } catch {
+    return errorResponse(400, 'invalid_request', 'Failed to read request body')
+  }
+  return text + decoder.decode()
+}
+
+function jsonResponse(response: HandlerResponse): Response {
+  return new Response(JSON.stringify(response.body), {
+    status: response.status,
+    headers: { ...response.headers, 'Content-Type': 'application/json' },
+  })
+}
@@ -0,0 +1,198 @@
+import { createHash, randomUUID } from 'crypto'
+import { link, mkdir, open, readdir, rename, rm, stat, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { IdempotencyRecord, IdempotencyStore, IdempotentResponse } from './types.js'
+
+// How often `complete` sweeps expired records out of the directory
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000 // 10 minutes
+// Unreadable records and leftover temp files carry no expiry; drop them after this
+const ORPHAN_MAX_AGE_MS = 24 * 60 * 60 * 1000 // 24 hours
+
+/**
+ * A record file as found on disk. `record` is null when the file is
+ * unreadable. `id` identifies this particular write: the id stored in the
+ * file, or its inode and mtime when it has none.
+ */
+interface StoredRecord {
+  id: string
+  mtimeMs: number
+  record: IdempotencyRecord | null
+}
+
+/**
+ * Idempotency store backed by one JSON file per key. Files are written whole
+ * (temp file, then link or rename), so processes sharing `directory` never
+ * both run a request and a crash never leaves a half-written record.
+ *
+ * `complete` and `release` only act on claims this instance still holds: a
+ * worker whose lease lapsed can't overwrite the claim of the process that
+ * took over. Expired records are swept every 10 minutes by `complete`, or
+ * on demand with `prune()`.
+ *
+ * @example
+ * ```ts
+ * const store = new FileIdempotencyStore('/var/lib/my-app/fo-idempotency')
+ * ```
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  /** Id of each claim file this instance created, by key */
+  private readonly claims = new Map<string, string>()
+  private lastPrunedAt = Date.now()
+
+  constructor(private readonly directory: string) {}
+
+  async claim(key: string, leaseMs: number): Promise<IdempotencyRecord | null> {
+    await mkdir(this.directory, { recursive: true })
+    const path = this.pathFor(key)
+    const record: IdempotencyRecord = { state: 'in_flight', expiresAt: Date.now() + leaseMs }
+
+    // Retries follow eviction of an expired record or a release in between
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const id = await this.create(path, record)
+      if (id !== null) {
+        this.claims.set(key, id)
+        return null
+      }
+
+      const existing = await this.inspect(path)
+      if (!existing) continue
+      // An unreadable record (e.g. from a crash) expires `leaseMs` after it was written
+      const expiresAt = existing.record?.expiresAt ?? existing.mtimeMs + leaseMs
+      if (expiresAt > Date.now()) return existing.record ?? { state: 'in_flight', expiresAt }
+      await this.takeIfUnchanged(path, existing.id)
+    }
+
+    // Lost the race to another process re-claiming the expired key
+    return (await this.inspect(path))?.record ?? { state: 'in_flight', expiresAt: record.expiresAt }
+  }
+
+  async complete(key: string, response: IdempotentResponse, ttlMs: number): Promise<void> {
+    const id = this.claims.get(key)
+    this.claims.delete(key)
+
+    const path = this.pathFor(key)
+    if (id !== undefined && await this.takeIfUnchanged(path, id)) {
+      // A claim slipping in between wins; this result is then dropped
+      await this.create(path, { state: 'completed', response, expiresAt: Date.now() + ttlMs })
+    }
+
+    if (Date.now() - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = Date.now()
+      await this.prune()
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    const id = this.claims.get(key)
+    this.claims.delete(key)
+    if (id !== undefined) await this.takeIfUnchanged(this.pathFor(key), id)
+  }
+
+  /**
+   * Delete expired records, plus unreadable records and temp files left by
+   * crashed writers once they are a day old. Returns how many were removed.
+   */
+  async prune(): Promise<number> {
+    let names: string[]
+    try {
+      names = await readdir(this.directory)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return 0
+      throw err
+    }
+
+    const now = Date.now()
+    let removed = 0
+    for (const name of names) {
+      const path = join(this.directory, name)
+      if (!name.endsWith('.json')) {
+        // `<key>.json.<uuid>.tmp` / `.stale` of a writer that died mid-swap
+        const info = await stat(path).catch(() => null)
+        if (info && now - info.mtimeMs > ORPHAN_MAX_AGE_MS) {
+          await rm(path, { force: true })
+          removed++
+        }
+        continue
+      }
+
+      const existing = await this.inspect(path)
+      if (!existing) continue
+      const expiresAt = existing.record?.expiresAt ?? existing.mtimeMs + ORPHAN_MAX_AGE_MS
+      if (expiresAt <= now && await this.takeIfUnchanged(path, existing.id)) removed++
+    }
+    return removed
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`)
+  }
+
+  /**
+   * Create the record at `path` unless one exists — `link` fails atomically
+   * with EEXIST. Returns the new file's id, or null if one existed.
+   */
+  private async create(path: string, record: IdempotencyRecord): Promise<string | null> {
+    const id = randomUUID()
+    const temp = `${path}.${id}.tmp`
+    await writeFile(temp, JSON.stringify({ ...record, id }), { flag: 'wx' })
+    try {
+      await link(temp, path)
+      return id
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err
+      return null
+    } finally {
+      await rm(temp, { force: true })
+    }
+  }
+
+  /**
+   * Remove the record at `path` if it is still the write `id`. Renaming is
+   * the compare-and-swap: if another process replaced the record first, the
+   * file we moved aside is put back instead of being deleted.
+   */
+  private async takeIfUnchanged(path: string, id: string): Promise<boolean> {
+    const aside = `${path}.${randomUUID()}.stale`
+    try {
+      await rename(path, aside)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return false
+      throw err
+    }
+
+    try {
+      if ((await this.inspect(aside))?.id === id) return true
+      await link(aside, path)
+      return false
+    } catch (err) {
+      // EEXIST: yet another process claimed the key in between, and owns it
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err
+      return false
+    } finally {
+      await rm(aside, { force: true })
+    }
+  }
+
+  private async inspect(path: string): Promise<StoredRecord | null> {
+    let handle
+    try {
+      handle = await open(path, 'r')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw err
+    }
+
+    try {
+      const { ino, mtimeMs } = await handle.stat()
+      let record: (IdempotencyRecord & { id?: string }) | null = null
+      try {
+        record = JSON.parse(await handle.readFile('utf8')) as IdempotencyRecord & { id?: string }
+      } catch {
+        // Unreadable (e.g. torn by a crash): callers age it out by mtime
+      }
+      return { id: record?.id ?? `${ino}:${mtimeMs}`, mtimeMs, record }
+    } finally {
+      await handle.close()
+    }
+  }
+}
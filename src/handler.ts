@@ -0,0 +1,550 @@
+// Transport-agnostic core of the tool handlers. `createToolHandler` (Node) and
+// `createFetchToolHandler` (WHATWG Request/Response) both delegate here, so
+// validation, env injection and error mapping behave the same everywhere.
+
+import type { FoClient } from './client.js'
+import { decryptPayload, encryptPayload, PayloadDecryptionError } from './encryption.js'
+import { consoleLogSink, createActionLogger } from './logger.js'
+import type { MetricsRegistry } from './metrics.js'
+import { createRateLimiter, type RateLimiter } from './rateLimit.js'
+import { decodePublicKey, keyList, signWebhookResponse } from './signature.js'
+import { NOOP_TRACE, type RequestTrace, type Tracer } from './tracing.js'
+import {
+  ActionCancelledError,
+  ActionError,
+  ActionInputError,
+  ActionTimeoutError,
+  RetryableActionError,
+} from './errors.js'
+import type {
+  ActionErrorCode,
+  ActionErrorResponse,
+  ActionJobUpdate,
+  ActionLogger,
+  AsyncToolContext,
+  FoTool,
+  IdempotencyStore,
+  LogSink,
+  WebhookPayload,
+  ToolContext,
+  WebhookVerificationKeys,
+} from './types.js'
+
+export interface HandlerResponse {
+  status: number
+  body: unknown
+  headers?: Record<string, string>
+}
+
+const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000 // 24 hours
+const DEFAULT_IDEMPOTENCY_LEASE_MS = 5 * 60 * 1000 // 5 minutes
+const IDEMPOTENCY_LEASE_MARGIN_MS = 60 * 1000 // 1 minute
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024 // 1 MiB
+
+export interface IdempotencyOptions {
+  /** Where results are cached. See `MemoryIdempotencyStore` and `FileIdempotencyStore`. */
+  store: IdempotencyStore
+  /** How long a result is replayed for duplicate deliveries. Defaults to 24 hours. */
+  ttlMs?: number
+  /**
+   * How long a running call blocks duplicates with a 409. If the process dies
+   * mid-call, retries run again once the lease lapses. Defaults to the
+   * action's `timeoutMs` plus a minute, or 5 minutes without one.
+   */
+  leaseMs?: number
+}
+
+export interface ExecuteToolOptions {
+  /**
+   * Where declared env vars are read from. Defaults to `process.env`.
+   * On Cloudflare Workers, pass the `env` bindings instead.
+   */
+  env?: Record<string, string | undefined> | undefined
+  /**
+   * Cache results by request id so a retried delivery gets the original
+   * result instead of running `execute` again.
+   */
+  idempotency?: IdempotencyOptions | undefined
+  /**
+   * Client used to report async action results back to Fo.
+   * Required when serving actions defined with `mode: 'async'`.
+   */
+  client?: Pick<FoClient, 'actions'> | undefined
+  /**
+   * Receives structured log entries from `ctx.logger` and the handler itself.
+   * Defaults to the console.
+   */
+  logger?: LogSink | undefined
+  /**
+   * OpenTelemetry tracer. When set, each call gets an `fo.action` span with
+   * `fo.verify`, `fo.parse` and `fo.execute` children, parented to the
+   * incoming `traceparent`. Requires `@opentelemetry/api`.
+   */
+  tracer?: Tracer | undefined
+  /** Registry to record call counts, errors and latency into. See `createMetricsRegistry`. */
+  metrics?: MetricsRegistry | undefined
+  /**
+   * Protection for response bodies beyond TLS. `'signed'` adds
+   * `x-fo-signature` / `x-fo-timestamp` headers so Fo can check the response
+   * came from you; `'encrypted'` also encrypts the body with a key derived
+   * from the webhook secret. Defaults to `'plain'`.
+   */
+  responses?: ResponseProtection | undefined
+}
+
+export type ResponseProtection = 'plain' | 'signed' | 'encrypted'
+
+/**
+ * A payload whose signature checked out, and the shared secret to decrypt
+ * params and protect the response with — undefined for a handler that only
+ * has an Ed25519 public key.
+ */
+export interface VerifiedRequest {
+  payload: WebhookPayload
+  secret: string | undefined
+}
+
+/** Per-request state supplied by the transport. */
+export interface ExecutionRequest {
+  /** Aborts when the caller disconnects */
+  signal?: AbortSignal | undefined
+  /** Span for this call, started by the transport before verification */
+  trace?: RequestTrace | undefined
+}
+
+/** Throw at handler creation if an async action has no client to report through. */
+export function assertAsyncSupport(
+  tools: ReadonlyArray<Pick<FoTool, 'name' | 'mode'>>,
+  client: ExecuteToolOptions['client']
+): void {
+  const asyncTool = tools.find((t) => t.mode === 'async')
+  if (asyncTool && !client) {
+    throw new Error(
+      `Action "${asyncTool.name}" uses mode: 'async' and needs a \`client\` option ` +
+      `(a FoClient) to report its result back to Fo.`
+    )
+  }
+}
+
+/**
+ * Throw at handler creation if there is nothing to verify calls with, or if
+ * `responses` asks for protection that needs a shared secret.
+ */
+export function assertVerificationKeys(
+  options: WebhookVerificationKeys & Pick<ExecuteToolOptions, 'responses'>
+): void {
+  const secrets = keyList(options.secret)
+  if (secrets.length === 0 && keyList(options.publicKey).length === 0) {
+    throw new Error('Pass a webhook `secret` (HMAC signatures) or `publicKey` (Ed25519 signatures).')
+  }
+  if (options.responses && options.responses !== 'plain' && secrets.length === 0) {
+    throw new Error(`responses: '${options.responses}' needs a webhook \`secret\` to derive its key from.`)
+  }
+  for (const [i, key] of keyList(options.publicKey).entries()) {
+    try {
+      decodePublicKey(key)
+    } catch {
+      throw new Error(`publicKey[${i}] is not an Ed25519 public key. Pass a PEM (SPKI) or base64 raw 32-byte key.`)
+    }
+  }
+}
+
+/** Build an error response in the `ActionErrorResponse` wire format. */
+export function errorResponse(
+  status: number,
+  code: ActionErrorCode,
+  message: string,
+  extra: { retryAfter?: number | undefined; details?: unknown } = {}
+): HandlerResponse & { body: ActionErrorResponse } {
+  const body: ActionErrorResponse = { success: false, error: message, code }
+  if (extra.retryAfter !== undefined) body.retryAfter = extra.retryAfter
+  if (extra.details !== undefined) body.details = extra.details
+
+  return extra.retryAfter !== undefined
+    ? { status, body, headers: { 'Retry-After': String(extra.retryAfter) } }
+    : { status, body }
+}
+
+/** Map an error thrown by `execute` to its status code and `code`. */
+export function thrownErrorResponse(err: unknown): HandlerResponse & { body: ActionErrorResponse } {
+  if (err instanceof RetryableActionError) {
+    return errorResponse(err.status, err.code, err.message, { retryAfter: err.retryAfter })
+  }
+  if (err instanceof ActionInputError) {
+    return errorResponse(err.status, err.code, err.message, { details: err.details })
+  }
+  if (err instanceof ActionError) {
+    return errorResponse(err.status, err.code, err.message)
+  }
+  const message = err instanceof Error ? err.message : 'Tool execution failed'
+  return errorResponse(500, 'internal_error', message)
+}
+
+/**
+ * Parse a verified raw body, or return the error response to send.
+ * `requestIdHeader` (x-fo-request-id) fills in a missing `payload.requestId`.
+ */
+export function parsePayload(
+  rawBody: string,
+  requestIdHeader?: string | undefined
+): WebhookPayload | HandlerResponse {
+  let payload: WebhookPayload
+  try {
+    payload = JSON.parse(rawBody) as WebhookPayload
+  } catch {
+    return errorResponse(400, 'invalid_request', 'Invalid JSON body')
+  }
+
+  if (!payload.requestId && requestIdHeader) {
+    payload.requestId = requestIdHeader
+  }
+  return payload
+}
+
+export function isHandlerResponse<T extends object>(value: T | HandlerResponse): value is HandlerResponse {
+  return 'status' in value && typeof value.status === 'number' && 'body' in value
+}
+
+/**
+ * Decrypt `encryptedParams` into `params` using the secret that signed the
+ * request, or return the error response to send.
+ */
+export async function decryptParams(request: VerifiedRequest): Promise<VerifiedRequest | HandlerResponse> {
+  const { payload, secret } = request
+  if (!payload.encryptedParams) return request
+  if (secret === undefined) {
+    return errorResponse(400, 'invalid_request', 'Encrypted params need a webhook secret to decrypt')
+  }
+
+  let params: unknown
+  try {
+    params = await decryptPayload(payload.encryptedParams, secret)
+  } catch (err) {
+    if (err instanceof PayloadDecryptionError) {
+      return errorResponse(400, 'invalid_request', err.message)
+    }
+    throw err
+  }
+
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+    return errorResponse(400, 'invalid_request', 'Decrypted params must be a JSON object')
+  }
+  const { encryptedParams: _encrypted, ...rest } = payload
+  return { payload: { ...rest, params: params as Record<string, unknown> }, secret }
+}
+
+/**
+ * Sign — and for `'encrypted'`, encrypt — a response to a verified request.
+ * The signature covers `JSON.stringify(body)`, which is what transports send.
+ */
+export async function protectResponse(
+  response: HandlerResponse,
+  mode: ResponseProtection | undefined,
+  request: VerifiedRequest
+): Promise<HandlerResponse> {
+  const { secret } = request
+  if (!mode || mode === 'plain' || secret === undefined) return response
+
+  const body = mode === 'encrypted' ? await encryptPayload(response.body, secret) : response.body
+  const { signature, timestamp } = await signWebhookResponse(JSON.stringify(body), request.payload.requestId, secret)
+
+  return {
+    status: response.status,
+    body,
+    headers: {
+      ...response.headers,
+      'x-fo-signature': signature,
+      'x-fo-timestamp': timestamp,
+      ...(mode === 'encrypted' ? { 'x-fo-encryption': 'A256GCM' } : {}),
+    },
+  }
+}
+
+/**
+ * Validate params, inject env and run the tool. Never throws — every outcome
+ * maps to a status code and JSON body.
+ */
+export async function executeTool<TParams extends import('zod').ZodSchema>(
+  tool: FoTool<TParams>,
+  payload: WebhookPayload,
+  options: ExecuteToolOptions = {},
+  request: ExecutionRequest = {}
+): Promise<HandlerResponse> {
+  const trace = request.trace ?? NOOP_TRACE
+  trace.setAttributes({
+    'fo.tool.name': tool.name,
+    'fo.request_id': payload.requestId,
+    'fo.agent_id': payload.agentId,
+    'fo.hitl': typeof tool.hitl === 'string' ? tool.hitl : 'policy',
+  })
+
+  const logger = createActionLogger(options.logger ?? consoleLogSink, {
+    tool: tool.name,
+    requestId: payload.requestId,
+    agentId: payload.agentId,
+  })
+
+  // Validate parameters against tool schema
+  const parsed = await trace.step('fo.parse', () => tool.parameters.safeParse(payload.params))
+  if (!parsed.success) {
+    return errorResponse(422, 'invalid_params', 'Invalid tool parameters', {
+      details: parsed.error.issues,
+    })
+  }
+
+  const idempotency = options.idempotency
+  if (!idempotency || !payload.requestId) {
+    return trace.step('fo.execute', () => runTool(tool, parsed.data, payload, options, logger, request.signal))
+  }
+
+  // Scope by tool so a request id can never replay another tool's result
+  const key = `${tool.name}:${payload.requestId}`
+  const ttlMs = idempotency.ttlMs ?? DEFAULT_IDEMPOTENCY_TTL_MS
+  const leaseMs = idempotency.leaseMs ??
+    (tool.timeoutMs !== undefined ? tool.timeoutMs + IDEMPOTENCY_LEASE_MARGIN_MS : DEFAULT_IDEMPOTENCY_LEASE_MS)
+
+  let existing
+  try {
+    existing = await idempotency.store.claim(key, leaseMs)
+  } catch (err) {
+    logger.error('Idempotency store error', { err })
+    return errorResponse(503, 'idempotency_unavailable', 'Idempotency store unavailable')
+  }
+
+  if (existing?.state === 'completed') {
+    return { ...existing.response, headers: { 'x-fo-idempotent-replay': 'true' } }
+  }
+
+  if (existing?.state === 'in_flight') {
+    return errorResponse(409, 'duplicate_request', `Request ${payload.requestId} is already being processed`, {
+      retryAfter: 5,
+    })
+  }
+
+  const response = await trace.step('fo.execute', () =>
+    runTool(tool, parsed.data, payload, options, logger, request.signal)
+  )
+
+  // Only successful results are replayed — a failed, cancelled or throttled run may be retried
+  try {
+    if (response.status < 500 && response.status !== 499 && response.status !== 429) {
+      await idempotency.store.complete(key, { status: response.status, body: response.body }, ttlMs)
+    } else {
+      await idempotency.store.release(key)
+    }
+  } catch (err) {
+    logger.error('Idempotency store error', { err })
+  }
+
+  return response
+}
+
+async function runTool<TParams extends import('zod').ZodSchema>(
+  tool: FoTool<TParams>,
+  params: import('zod').infer<TParams>,
+  payload: WebhookPayload,
+  options: ExecuteToolOptions,
+  logger: ActionLogger,
+  requestSignal: AbortSignal | undefined
+): Promise<HandlerResponse> {
+  // Inject declared env vars — only what the tool declared it needs
+  const source = options.env ?? (typeof process !== 'undefined' ? process.env : {})
+  const env: Record<string, string> = {}
+  for (const key of tool.env) {
+    const val = source[key]
+    if (val !== undefined) env[key] = val
+  }
+
+  const slot = rateLimiterFor(tool)?.tryAcquire() ?? { acquired: true, release: () => {} }
+  if (!slot.acquired) {
+    logger.warn('Rate limited', { retryAfter: slot.retryAfter })
+    return errorResponse(429, 'rate_limited', `Action "${tool.name}" is over its rate limit`, {
+      retryAfter: slot.retryAfter,
+    })
+  }
+
+  const baseContext: Omit<ToolContext, 'signal'> = {
+    ...payload.context,
+    env,
+    log: (msg) => logger.info(msg),
+    logger,
+  }
+
+  if (tool.mode === 'async') {
+    const client = options.client
+    if (!client) {
+      slot.release()
+      return errorResponse(500, 'internal_error', 'Async action handler has no client configured')
+    }
+
+    const jobId = payload.requestId || `job_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+    // Intentionally not awaited — the job reports back through the client.
+    // It keeps its concurrency slot until it settles.
+    void runAsyncJob(tool, params, baseContext, jobId, (update) => client.actions.complete(jobId, update))
+      .finally(slot.release)
+    return { status: 202, body: { success: true, status: 'accepted', jobId } }
+  }
+
+  const abort = createActionAbort(tool, requestSignal)
+  const context: ToolContext = { ...baseContext, signal: abort.signal }
+
+  try {
+    const result = await raceAbort(tool.execute(params, context), abort.signal)
+
+    const checked = checkOutput(tool, result)
+    if (!checked.success) {
+      logger.error('Result did not match output schema', { issues: checked.issues })
+      return errorResponse(500, 'invalid_output', 'Action result did not match its output schema', {
+        details: checked.issues,
+      })
+    }
+
+    logger.info('Action completed', { outcome: 'success' })
+    return { status: 200, body: { success: true, result: checked.data } }
+  } catch (err) {
+    const response = thrownErrorResponse(err)
+    logger.error('Action failed', { outcome: 'error', code: response.body.code, err })
+    return response
+  } finally {
+    abort.dispose()
+    slot.release()
+  }
+}
+
+// One limiter per action, shared by every handler serving it in this process
+const rateLimiters = new WeakMap<object, RateLimiter>()
+
+function rateLimiterFor(tool: Pick<FoTool, 'rateLimit'>): RateLimiter | undefined {
+  if (!tool.rateLimit) return undefined
+  let limiter = rateLimiters.get(tool)
+  if (!limiter) {
+    limiter = createRateLimiter(tool.rateLimit)
+    rateLimiters.set(tool, limiter)
+  }
+  return limiter
+}
+
+/**
+ * Run an async action in the background, reporting progress and the outcome
+ * through `report`. Resolves once the job has settled and been reported.
+ */
+export async function runAsyncJob<TParams extends import('zod').ZodSchema>(
+  tool: Pick<FoTool<TParams>, 'name' | 'execute' | 'output' | 'timeoutMs'>,
+  params: import('zod').infer<TParams>,
+  context: Omit<ToolContext, 'signal'>,
+  jobId: string,
+  report: (update: ActionJobUpdate) => Promise<void>
+): Promise<void> {
+  let settled = false
+  // The job outlives the request, so only the timeout aborts it
+  const abort = createActionAbort(tool, undefined)
+
+  const send = async (update: ActionJobUpdate) => {
+    try {
+      await report(update)
+    } catch (err) {
+      context.logger.error(`Failed to report ${update.status}`, { jobId, err })
+    }
+  }
+
+  const jobContext: AsyncToolContext = {
+    ...context,
+    signal: abort.signal,
+    jobId,
+    progress: async (pct, note) => {
+      if (settled) return
+      const progress = Math.min(100, Math.max(0, pct))
+      await send(note === undefined ? { status: 'running', progress } : { status: 'running', progress, note })
+    },
+    complete: async (result) => {
+      if (settled) return
+      settled = true
+
+      const checked = checkOutput(tool, result)
+      if (!checked.success) {
+        context.logger.error('Result did not match output schema', { jobId, issues: checked.issues })
+        await send({ status: 'failed', error: 'Action result did not match its output schema', code: 'invalid_output' })
+        return
+      }
+      context.logger.info('Action completed', { jobId, outcome: 'success' })
+      await send({ status: 'completed', result: checked.data })
+    },
+    fail: async (error) => {
+      if (settled) return
+      settled = true
+      const { body } = thrownErrorResponse(error instanceof Error ? error : new Error(error))
+      context.logger.error('Action failed', { jobId, outcome: 'error', code: body.code, err: error })
+      await send({ status: 'failed', error: body.error, code: body.code })
+    },
+  }
+
+  try {
+    const result = await raceAbort(tool.execute(params, jobContext), abort.signal)
+    if (!settled) await jobContext.complete(result)
+  } catch (err) {
+    if (!settled) await jobContext.fail(err instanceof Error ? err : 'Tool execution failed')
+  } finally {
+    abort.dispose()
+  }
+}
+
+/**
+ * An AbortController for one execution. Aborts with `ActionTimeoutError`
+ * after `tool.timeoutMs`, or `ActionCancelledError` when `requestSignal` fires.
+ */
+function createActionAbort(
+  tool: Pick<FoTool, 'name' | 'timeoutMs'>,
+  requestSignal: AbortSignal | undefined
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController()
+
+  const timer = tool.timeoutMs !== undefined
+    ? setTimeout(() => controller.abort(new ActionTimeoutError(tool.name, tool.timeoutMs ?? 0)), tool.timeoutMs)
+    : undefined
+
+  const onRequestAbort = () => controller.abort(new ActionCancelledError(tool.name))
+  if (requestSignal?.aborted) onRequestAbort()
+  requestSignal?.addEventListener('abort', onRequestAbort, { once: true })
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer !== undefined) clearTimeout(timer)
+      requestSignal?.removeEventListener('abort', onRequestAbort)
+    },
+  }
+}
+
+/** Settle with `promise`, or reject with `signal.reason` as soon as it aborts. */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  // The action may still reject after we stop waiting — don't let that go unhandled
+  promise.catch(() => {})
+
+  if (signal.aborted) return Promise.reject(signal.reason)
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(value)
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort)
+        reject(err)
+      }
+    )
+  })
+}
+
+function checkOutput(
+  tool: Pick<FoTool, 'output'>,
+  result: unknown
+): { success: true; data: unknown } | { success: false; issues: import('zod').ZodIssue[] } {
+  if (!tool.output) return { success: true, data: result }
+
+  const parsed = tool.output.safeParse(result)
+  return parsed.success
+    ? { success: true, data: parsed.data }
+    : { success: false, issues: parsed.error.issues }
+}
@@ -0,0 +1,262 @@
+// Conditional human-in-the-loop policies. Fo enforces them on its side;
+// `evaluateHitl` runs the same rules locally so they can be unit tested.
+
+import { isValidTimezone, wallClock } from './cron.js'
+import type {
+  HitlCondition,
+  HitlConditions,
+  HitlDecision,
+  HitlMode,
+  HitlPolicy,
+  HitlTimeWindow,
+  MessageContext,
+  Weekday,
+} from './types.js'
+
+const HITL_MODES: readonly HitlMode[] = ['auto', 'always', 'never']
+const POLICY_KEYS = ['when', 'allowSenders', 'outsideHours', 'otherwise']
+const OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'exists']
+const NUMERIC_OPERATORS = ['gt', 'gte', 'lt', 'lte']
+// Indexed by Date#getDay()
+const WEEKDAYS: readonly Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+/** One call, as far as a policy can see it. */
+export interface HitlCall {
+  /** Validated params */
+  params: Record<string, unknown>
+  /** Message that led to the call. Needed for `allowSenders`. */
+  message?: Pick<MessageContext, 'from'> | undefined
+  /** Time of the call. Defaults to now. */
+  now?: Date | undefined
+}
+
+/**
+ * Decide whether a call needs approval, the way Fo does. Static modes are
+ * returned as-is; a policy yields `'always'` when any rule fires.
+ *
+ * @example
+ * ```ts
+ * import { evaluateHitl } from '@fo/sdk'
+ *
+ * const decision = evaluateHitl(createDeal.hitl, {
+ *   params: { name: 'Acme', value: 25000 },
+ *   message: { from: 'jo@acme.com' },
+ * })
+ * assert.equal(decision.mode, 'always')
+ * ```
+ */
+export function evaluateHitl(hitl: HitlMode | HitlPolicy, call: HitlCall): HitlDecision {
+  if (typeof hitl === 'string') return { mode: hitl, reasons: [] }
+
+  const reasons: string[] = []
+
+  const matched = conditionGroups(hitl.when).find((group) => matchesAll(group, call.params))
+  if (matched) reasons.push(`when: ${describeConditions(matched)}`)
+
+  if (hitl.allowSenders && !senderAllowed(hitl.allowSenders, call.message?.from)) {
+    reasons.push(`sender: ${call.message?.from || 'unknown'} is not in allowSenders`)
+  }
+
+  if (hitl.outsideHours && !withinWindow(hitl.outsideHours, call.now ?? new Date())) {
+    reasons.push(`outsideHours: ${describeWindow(hitl.outsideHours)}`)
+  }
+
+  return reasons.length > 0 ? { mode: 'always', reasons } : { mode: hitl.otherwise ?? 'never', reasons }
+}
+
+/** One-line summary of a policy's rules, for CLI output. */
+export function describeHitlPolicy(policy: HitlPolicy): string {
+  const parts = conditionGroups(policy.when).map((group) => `when ${describeConditions(group)}`)
+  if (policy.allowSenders) parts.push(`senders outside ${policy.allowSenders.join(', ')}`)
+  if (policy.outsideHours) parts.push(`outside ${describeWindow(policy.outsideHours)}`)
+  return parts.join('; ')
+}
+
+/**
+ * Throw if `hitl` is not a mode or a well-formed policy. `paramNames` — the
+ * top-level keys of the params schema, when known — catches typos in `when`.
+ */
+export function assertValidHitl(
+  actionName: string,
+  hitl: unknown,
+  paramNames?: readonly string[] | undefined
+): asserts hitl is HitlMode | HitlPolicy {
+  const invalid = (detail: string) => new Error(`Action "${actionName}" has an invalid hitl policy: ${detail}.`)
+
+  if (typeof hitl === 'string') {
+    if (!HITL_MODES.includes(hitl as HitlMode)) {
+      throw new Error(
+        `Action "${actionName}" has an invalid hitl "${hitl}". ` +
+        `Must be 'auto', 'always', 'never', or a policy object.`
+      )
+    }
+    return
+  }
+
+  if (typeof hitl !== 'object' || hitl === null || Array.isArray(hitl)) {
+    throw invalid('expected a mode string or a policy object')
+  }
+
+  const policy = hitl as Record<string, unknown>
+  const unknownKey = Object.keys(policy).find((key) => !POLICY_KEYS.includes(key))
+  if (unknownKey) throw invalid(`unknown key "${unknownKey}"`)
+
+  if (policy.when === undefined && policy.allowSenders === undefined && policy.outsideHours === undefined) {
+    throw invalid('set at least one of when, allowSenders, outsideHours')
+  }
+
+  if (policy.when !== undefined) {
+    const groups = Array.isArray(policy.when) ? policy.when as unknown[] : [policy.when]
+    if (groups.length === 0) throw invalid('when must not be empty')
+    for (const group of groups) assertConditions(group, paramNames, invalid)
+  }
+
+  if (policy.allowSenders !== undefined) {
+    const senders = policy.allowSenders
+    if (!Array.isArray(senders) || senders.length === 0 || !senders.every((s) => typeof s === 'string' && s.includes('@'))) {
+      throw invalid(`allowSenders must be a non-empty list of addresses or '*@domain.com' patterns`)
+    }
+  }
+
+  if (policy.outsideHours !== undefined) {
+    assertWindow(policy.outsideHours, invalid)
+  }
+
+  if (policy.otherwise !== undefined && policy.otherwise !== 'auto' && policy.otherwise !== 'never') {
+    throw invalid(`otherwise must be 'auto' or 'never'`)
+  }
+}
+
+function assertConditions(
+  group: unknown,
+  paramNames: readonly string[] | undefined,
+  invalid: (detail: string) => Error
+): void {
+  if (typeof group !== 'object' || group === null || Array.isArray(group) || Object.keys(group).length === 0) {
+    throw invalid('when must map param names to conditions')
+  }
+
+  for (const [path, condition] of Object.entries(group)) {
+    const root = path.split('.')[0] ?? ''
+    if (paramNames && !paramNames.includes(root)) {
+      throw invalid(`when refers to unknown param "${path}"`)
+    }
+    if (typeof condition !== 'object' || condition === null || Object.keys(condition).length === 0) {
+      throw invalid(`condition for "${path}" must be an object like { gt: 10000 }`)
+    }
+
+    for (const [op, value] of Object.entries(condition as Record<string, unknown>)) {
+      if (!OPERATORS.includes(op)) {
+        throw invalid(`unknown operator "${op}" for "${path}" (use ${OPERATORS.join(', ')})`)
+      }
+      if (NUMERIC_OPERATORS.includes(op) && (typeof value !== 'number' || !Number.isFinite(value))) {
+        throw invalid(`"${path}.${op}" must be a number`)
+      }
+      if ((op === 'in' || op === 'notIn') && !Array.isArray(value)) {
+        throw invalid(`"${path}.${op}" must be an array`)
+      }
+      if (op === 'exists' && typeof value !== 'boolean') {
+        throw invalid(`"${path}.exists" must be a boolean`)
+      }
+    }
+  }
+}
+
+function assertWindow(window: unknown, invalid: (detail: string) => Error): void {
+  if (typeof window !== 'object' || window === null) {
+    throw invalid('outsideHours must be { start, end, timezone?, days? }')
+  }
+  const { start, end, timezone, days } = window as Record<string, unknown>
+
+  if (typeof start !== 'string' || !TIME_REGEX.test(start) || typeof end !== 'string' || !TIME_REGEX.test(end)) {
+    throw invalid(`outsideHours start and end must be 'HH:MM' (24-hour)`)
+  }
+  if (start === end) {
+    throw invalid('outsideHours start and end must differ')
+  }
+  if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+    throw invalid(`unknown timezone "${String(timezone)}" (use an IANA name like 'America/New_York')`)
+  }
+  if (days !== undefined && (!Array.isArray(days) || days.length === 0 || !days.every((d) => WEEKDAYS.includes(d as Weekday)))) {
+    throw invalid(`outsideHours days must be a non-empty list of ${WEEKDAYS.join(', ')}`)
+  }
+}
+
+function conditionGroups(when: HitlPolicy['when']): readonly HitlConditions[] {
+  if (when === undefined) return []
+  return Array.isArray(when) ? when : [when as HitlConditions]
+}
+
+function matchesAll(group: HitlConditions, params: Record<string, unknown>): boolean {
+  return Object.entries(group).every(([path, condition]) => matches(condition, valueAt(params, path)))
+}
+
+function matches(condition: HitlCondition, value: unknown): boolean {
+  const { eq, ne, gt, gte, lt, lte, in: oneOf, notIn, exists } = condition
+  const isNumber = typeof value === 'number'
+
+  if (eq !== undefined && value !== eq) return false
+  if (ne !== undefined && value === ne) return false
+  if (gt !== undefined && !(isNumber && value > gt)) return false
+  if (gte !== undefined && !(isNumber && value >= gte)) return false
+  if (lt !== undefined && !(isNumber && value < lt)) return false
+  if (lte !== undefined && !(isNumber && value <= lte)) return false
+  if (oneOf !== undefined && !oneOf.includes(value as string)) return false
+  if (notIn !== undefined && notIn.includes(value as string)) return false
+  if (exists !== undefined && (value !== undefined && value !== null) !== exists) return false
+  return true
+}
+
+function valueAt(params: Record<string, unknown>, path: string): unknown {
+  let value: unknown = params
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+function senderAllowed(allowSenders: readonly string[], from: string | undefined): boolean {
+  // Accept `Name <address>` as well as a bare address
+  const address = (from?.match(/<([^>]+)>/)?.[1] ?? from ?? '').trim().toLowerCase()
+  if (!address) return false
+
+  return allowSenders.some((pattern) => {
+    const p = pattern.toLowerCase()
+    return p.startsWith('*@') ? address.endsWith(p.slice(1)) : address === p
+  })
+}
+
+function withinWindow(window: HitlTimeWindow, now: Date): boolean {
+  const local = wallClock(now, window.timezone ?? 'UTC')
+  const weekday = WEEKDAYS.indexOf(local.weekday)
+  const minutes = local.hour * 60 + local.minute
+  const start = toMinutes(window.start)
+  const end = toMinutes(window.end)
+  const onDay = (day: number) => !window.days || window.days.includes(WEEKDAYS[(day + 7) % 7] as Weekday)
+
+  if (start < end) return onDay(weekday) && minutes >= start && minutes < end
+  // Overnight window: the part after midnight belongs to the day it started
+  return (onDay(weekday) && minutes >= start) || (onDay(weekday - 1) && minutes < end)
+}
+
+function toMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function describeConditions(group: HitlConditions): string {
+  return Object.entries(group)
+    .flatMap(([path, condition]) =>
+      Object.entries(condition)
+        .filter(([, value]) => value !== undefined)
+        .map(([op, value]) => `${path} ${op} ${JSON.stringify(value)}`)
+    )
+    .join(' and ')
+}
+
+function describeWindow(window: HitlTimeWindow): string {
+  const days = window.days ? ` ${window.days.join(',')}` : ''
+  return `${window.start}–${window.end} ${window.timezone ?? 'UTC'}${days}`
+}
@@ -0,0 +1,43 @@
+// In-memory idempotency store for single-instance deployments.
+
+import type { IdempotencyRecord, IdempotencyStore, IdempotentResponse } from './types.js'
+
+/**
+ * In-process idempotency store. Fine for a single server instance;
+ * use a shared store (file, Redis, your database) when running several.
+ *
+ * @example
+ * ```ts
+ * app.post('/actions/create_deal', createToolHandler(createDeal, {
+ *   secret: process.env.FO_WEBHOOK_SECRET!,
+ *   idempotency: { store: new MemoryIdempotencyStore() },
+ * }))
+ * ```
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>()
+
+  async claim(key: string, leaseMs: number): Promise<IdempotencyRecord | null> {
+    const existing = this.records.get(key)
+    if (existing && existing.expiresAt > Date.now()) return existing
+
+    this.records.set(key, { state: 'in_flight', expiresAt: Date.now() + leaseMs })
+    return null
+  }
+
+  async complete(key: string, response: IdempotentResponse, ttlMs: number): Promise<void> {
+    this.records.set(key, { state: 'completed', response, expiresAt: Date.now() + ttlMs })
+    this.prune()
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key)
+  }
+
+  private prune(): void {
+    const now = Date.now()
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) this.records.delete(key)
+    }
+  }
+}
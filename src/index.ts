@@ -3,7 +3,8 @@ export { defineAction } from './defineAction.js'
 export { defineAgent } from './defineAgent.js'
 export { defineSchedule } from './defineSchedule.js'
 export { defineTrigger } from './defineTrigger.js'
-export { FoClient } from './client.js'
+export { FoClient, TriggerPayloadError } from './client.js'
+export type { TriggerClient } from './client.js'
 
 // ─── v1 API (backward compatible) ─────────────────────────────────────────────
 // defineTool → alias for defineAction (hitl defaults to 'auto')
@@ -12,7 +13,47 @@ export { defineAction as defineTool } from './defineAction.js'
 export { defineConfig } from './defineConfig.js'
 
 // ─── Webhook utilities ─────────────────────────────────────────────────────────
-export { verifyWebhook, createToolHandler, WebhookVerificationError } from './webhook.js'
+export {
+  verifyWebhook,
+  createToolHandler,
+  createActionRouter,
+  createApprovalHandler,
+  createTriggerEndpoint,
+  WebhookVerificationError,
+} from './webhook.js'
+export type { ActionRouter } from './webhook.js'
+export { hmacVerifier, stripeVerifier, githubVerifier, hubspotVerifier } from './triggerEndpoint.js'
+export type {
+  TriggerEndpointOptions,
+  TriggerVerifier,
+  InboundWebhook,
+  HmacVerifierOptions,
+} from './triggerEndpoint.js'
+export type { ApprovalHandlers } from './approvals.js'
+export { signWebhookResponse, verifyWebhookResponse } from './signature.js'
+export { encryptPayload, decryptPayload, PayloadDecryptionError } from './encryption.js'
+export type { ResponseProtection } from './handler.js'
+export {
+  ActionError,
+  RetryableActionError,
+  UserFacingActionError,
+  ActionInputError,
+  ActionTimeoutError,
+  ActionCancelledError,
+} from './errors.js'
+export { MemoryIdempotencyStore } from './idempotency.js'
+export { consoleLogSink } from './logger.js'
+export { evaluateHitl } from './hitl.js'
+export { nextRuns, parseCron } from './cron.js'
+export { renderTriggerPrompt } from './promptTemplate.js'
+export type { CronExpression } from './cron.js'
+export type { HitlCall } from './hitl.js'
+export { createMetricsRegistry } from './metrics.js'
+export type { MetricsRegistry, MetricsRegistryOptions } from './metrics.js'
+export { FileIdempotencyStore } from './fileIdempotencyStore.js'
+export type { IdempotencyOptions } from './handler.js'
+// Fetch-API runtimes — import from '@fo/sdk/fetch' on edge runtimes without node:crypto
+export { createFetchToolHandler, createFetchTriggerEndpoint, verifyWebhookAsync } from './fetch.js'
 
 // ─── Types ─────────────────────────────────────────────────────────────────────
 export type {
@@ -22,8 +63,27 @@ export type {
   FoSchedule,
   FoTrigger,
   HitlMode,
+  HitlPolicy,
+  HitlCondition,
+  HitlConditions,
+  HitlTimeWindow,
+  HitlDecision,
+  Weekday,
+  ActionMode,
+  ActionRateLimit,
+  ActionJobUpdate,
+  AsyncToolContext,
   ActionsConfig,
   ActionRegistration,
+  // Approvals
+  ApprovalGrant,
+  ApprovalStatus,
+  ApprovalResolution,
+  ApprovalRequest,
+  ApprovalRequestedEvent,
+  ApprovalResolvedEvent,
+  ApprovalEvent,
+  ApprovalWebhookConfig,
   // Context store
   ContextEpisode,
   TextEpisode,
@@ -34,6 +94,7 @@ export type {
   DatastoreConnector,
   IngestionToolRegistration,
   ContextConfig,
+  EnvReference,
   // v1 types (backward compat)
   ContextDocument,
   FoTool,
@@ -42,11 +103,31 @@ export type {
   CustomToolRegistration,
   // Shared
   ToolContext,
+  ActionLogger,
+  LogEntry,
+  LogFields,
+  LogLevel,
+  LogSink,
   MessageContext,
   AgentContext,
   AgentIdentity,
   WebhookPayload,
+  EncryptedPayload,
   WebhookHeaders,
+  WebhookSecret,
+  WebhookPublicKey,
+  WebhookVerificationKeys,
+  WebhookSignatureScheme,
+  WebhookVerification,
+  ActionManifestEntry,
+  ActionErrorCode,
+  ActionResponse,
+  ActionSuccessResponse,
+  ActionAcceptedResponse,
+  ActionErrorResponse,
+  IdempotencyStore,
+  IdempotencyRecord,
+  IdempotentResponse,
 } from './types.js'
 
 // Testing utilities — import from '@fo/sdk/testing' to keep test deps out of prod bundles
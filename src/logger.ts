@@ -0,0 +1,56 @@
+// Structured logging for action executions: the `ctx.logger` handed to
+// actions, and the default console sink.
+
+import type { ActionLogger, LogEntry, LogFields, LogLevel, LogSink } from './types.js'
+
+/** Fields the handler attaches to every entry of one execution. */
+export interface ActionLogContext {
+  tool: string
+  requestId: string
+  agentId: string
+}
+
+/**
+ * Create the logger handed to an action as `ctx.logger`. Every entry carries
+ * `tool`, `requestId`, `agentId` and `durationMs` (time since `startedAt`)
+ * alongside the fields passed by the caller.
+ */
+export function createActionLogger(
+  sink: LogSink,
+  base: ActionLogContext,
+  startedAt: number = Date.now()
+): ActionLogger {
+  const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    const entry: LogEntry = {
+      level,
+      message,
+      fields: { ...base, durationMs: Date.now() - startedAt, ...fields },
+    }
+    try {
+      sink(entry)
+    } catch {
+      // A broken sink must never fail the action
+    }
+  }
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  }
+}
+
+/**
+ * The default sink. Prints `[fo:tool:<name>] [<requestId>] <message>` to the
+ * console method matching the level, followed by any caller-supplied fields.
+ */
+export const consoleLogSink: LogSink = ({ level, message, fields }) => {
+  const { tool, requestId, agentId: _agentId, durationMs: _durationMs, ...rest } = fields
+  const line = `[fo:tool:${String(tool)}] [${String(requestId)}] ${message}`
+  if (Object.keys(rest).length > 0) {
+    console[level](line, rest)
+  } else {
+    console[level](line)
+  }
+}
@@ -0,0 +1,145 @@
+// Prometheus-style metrics for action handlers: call counts by outcome and
+// latency histograms, rendered in the text exposition format by hand, so no
+// metrics library is needed.
+
+import type { IncomingMessage, ServerResponse } from 'http'
+import type { HandlerResponse } from './handler.js'
+
+/** Latency buckets in seconds, matching the Prometheus client defaults */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+export interface MetricsRegistryOptions {
+  /** Upper bounds (seconds) of the latency histogram buckets */
+  buckets?: number[]
+  /** Prefix for every metric name. Defaults to `fo_`. */
+  prefix?: string
+}
+
+export interface MetricsRegistry {
+  /**
+   * Record one webhook call. Handlers call this for you when passed the
+   * registry as `metrics`. `action` is undefined when the call could not be
+   * tied to an action (e.g. a router call that failed verification).
+   */
+  record(action: string | undefined, response: HandlerResponse, durationMs: number): void
+  /** Render every metric in the Prometheus text exposition format. */
+  render(): string
+  /** Node handler serving `render()` — mount it at `/metrics`. */
+  handler: (req: IncomingMessage, res: ServerResponse) => void
+  /** WHATWG `Request` → `Response` handler serving `render()`. */
+  fetchHandler: (req: Request) => Response
+}
+
+interface Histogram {
+  buckets: number[]
+  sum: number
+  count: number
+}
+
+/**
+ * Create a registry that handlers record into. Tracks, per action: calls by
+ * response `code`, a latency histogram and Zod validation failures; and
+ * signature failures across all actions.
+ *
+ * @example
+ * ```ts
+ * import { createActionRouter, createMetricsRegistry } from '@fo/sdk'
+ *
+ * const metrics = createMetricsRegistry()
+ * app.post('/fo/actions', createActionRouter(actions, { secret, metrics }))
+ * app.get('/metrics', metrics.handler)
+ * ```
+ */
+export function createMetricsRegistry(options: MetricsRegistryOptions = {}): MetricsRegistry {
+  const bounds = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b)
+  const prefix = options.prefix ?? 'fo_'
+
+  // Keyed by rendered label set, e.g. `action="query_crm",code="ok"`
+  const calls = new Map<string, number>()
+  const validationFailures = new Map<string, number>()
+  const latency = new Map<string, Histogram>()
+  let signatureFailures = 0
+
+  const increment = (map: Map<string, number>, key: string) => map.set(key, (map.get(key) ?? 0) + 1)
+
+  const record: MetricsRegistry['record'] = (action, response, durationMs) => {
+    const code = responseCode(response)
+
+    if (code === 'invalid_signature') signatureFailures++
+    if (action === undefined) return
+
+    increment(calls, labels({ action, code }))
+
+    if (code === 'invalid_params' || code === 'invalid_output') {
+      increment(validationFailures, labels({ action, schema: code === 'invalid_params' ? 'params' : 'output' }))
+    }
+
+    const key = labels({ action })
+    const histogram = latency.get(key) ?? { buckets: bounds.map(() => 0), sum: 0, count: 0 }
+    const seconds = durationMs / 1000
+    bounds.forEach((bound, i) => {
+      if (seconds <= bound) histogram.buckets[i] = (histogram.buckets[i] ?? 0) + 1
+    })
+    histogram.sum += seconds
+    histogram.count++
+    latency.set(key, histogram)
+  }
+
+  const render = (): string => {
+    const lines: string[] = []
+
+    const counter = (name: string, help: string, values: Map<string, number>) => {
+      lines.push(`# HELP ${prefix}${name} ${help}`, `# TYPE ${prefix}${name} counter`)
+      for (const [key, value] of values) lines.push(`${prefix}${name}{${key}} ${value}`)
+    }
+
+    counter('action_calls_total', 'Webhook calls handled, by action and response code.', calls)
+    counter('action_validation_failures_total', 'Zod validation failures, by action and schema.', validationFailures)
+
+    lines.push(
+      `# HELP ${prefix}webhook_signature_failures_total Webhook calls rejected for an invalid signature.`,
+      `# TYPE ${prefix}webhook_signature_failures_total counter`,
+      `${prefix}webhook_signature_failures_total ${signatureFailures}`
+    )
+
+    const name = `${prefix}action_duration_seconds`
+    lines.push(`# HELP ${name} Webhook call latency, by action.`, `# TYPE ${name} histogram`)
+    for (const [key, histogram] of latency) {
+      bounds.forEach((bound, i) => {
+        lines.push(`${name}_bucket{${key},le="${bound}"} ${histogram.buckets[i] ?? 0}`)
+      })
+      lines.push(
+        `${name}_bucket{${key},le="+Inf"} ${histogram.count}`,
+        `${name}_sum{${key}} ${histogram.sum}`,
+        `${name}_count{${key}} ${histogram.count}`
+      )
+    }
+
+    return `${lines.join('\n')}\n`
+  }
+
+  return {
+    record,
+    render,
+    handler: (_req, res) => {
+      res.writeHead(200, { 'Content-Type': CONTENT_TYPE })
+      res.end(render())
+    },
+    fetchHandler: () => new Response(render(), { status: 200, headers: { 'Content-Type': CONTENT_TYPE } }),
+  }
+}
+
+/** `ok` for 2xx/3xx responses, otherwise the error `code` from the body. */
+function responseCode(response: HandlerResponse): string {
+  if (response.status < 400) return 'ok'
+  const body = response.body as { code?: unknown } | null
+  return typeof body?.code === 'string' ? body.code : 'error'
+}
+
+function labels(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`)
+    .join(',')
+}
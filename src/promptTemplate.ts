@@ -0,0 +1,332 @@
+// Trigger prompt templates: `{{dealName}}`, `{{owner.email}}`,
+// `{{value|currency}}`. Placeholders are checked against the trigger's Zod
+// schema when it is defined, and rendered the same way Fo renders them.
+
+import type { z } from 'zod'
+import type { FoTrigger } from './types.js'
+
+/** One `{{path|formatter:arg}}` placeholder. */
+export interface PromptPlaceholder {
+  /** The placeholder as written, braces included */
+  raw: string
+  /** Dotted path into the payload: `['owner', 'email']` */
+  path: string[]
+  formatters: Array<{ name: string; arg?: string | undefined }>
+}
+
+type PromptPart = string | PromptPlaceholder
+
+// What a schema allows at a path, as far as formatters care
+type ValueKind = 'string' | 'number' | 'boolean' | 'date' | 'other' | 'any'
+
+interface Formatter {
+  accepts: readonly ValueKind[]
+  argument?: 'currency' | undefined
+  format(value: unknown, arg: string | undefined): string
+}
+
+const FORMATTERS: Record<string, Formatter> = {
+  // 240000 → $240,000 · 12.5 → $12.50 · {{value|currency:EUR}} → €240,000
+  currency: {
+    accepts: ['number'],
+    argument: 'currency',
+    format: (value, arg) => {
+      const amount = Number(value)
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: arg ?? 'USD',
+        minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+      }).format(amount)
+    },
+  },
+  // 240000 → 240,000
+  number: { accepts: ['number'], format: (value) => new Intl.NumberFormat('en-US').format(Number(value)) },
+  // '2026-01-05T17:00:00Z' → Jan 5, 2026 (UTC)
+  date: {
+    accepts: ['date', 'string', 'number'],
+    format: (value) => {
+      const date = value instanceof Date ? value : new Date(value as string | number)
+      if (Number.isNaN(date.getTime())) return String(value)
+      return new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeZone: 'UTC' }).format(date)
+    },
+  },
+  upper: { accepts: ['string'], format: (value) => String(value).toUpperCase() },
+  lower: { accepts: ['string'], format: (value) => String(value).toLowerCase() },
+  json: { accepts: ['string', 'number', 'boolean', 'date', 'other'], format: (value) => JSON.stringify(value) },
+}
+
+const PATH_REGEX = /^[A-Za-z_$][\w$]*(\.([A-Za-z_$][\w$]*|\d+))*$/
+const FORMATTER_REGEX = /^([a-z]+)(?::(.+))?$/
+
+/**
+ * Split a prompt template into text and placeholders.
+ *
+ * @throws {Error} on an unclosed or malformed placeholder
+ */
+export function parsePromptTemplate(template: string): PromptPart[] {
+  const parts: PromptPart[] = []
+  let rest = template
+
+  while (rest) {
+    const open = rest.indexOf('{{')
+    if (open < 0) {
+      parts.push(rest)
+      break
+    }
+    if (open > 0) parts.push(rest.slice(0, open))
+
+    const close = rest.indexOf('}}', open + 2)
+    if (close < 0) throw new Error(`unclosed placeholder "${rest.slice(open, open + 20)}"`)
+
+    const raw = rest.slice(open, close + 2)
+    const [pathText = '', ...formatterTexts] = raw.slice(2, -2).split('|').map((s) => s.trim())
+    if (!PATH_REGEX.test(pathText)) {
+      throw new Error(`invalid placeholder "${raw}" (use a field name or dotted path, like {{owner.email}})`)
+    }
+
+    const formatters = formatterTexts.map((text) => {
+      const match = FORMATTER_REGEX.exec(text)
+      if (!match?.[1]) throw new Error(`invalid formatter "${text}" in "${raw}"`)
+      return { name: match[1], arg: match[2] }
+    })
+
+    parts.push({ raw, path: pathText.split('.'), formatters })
+    rest = rest.slice(close + 2)
+  }
+
+  return parts
+}
+
+/**
+ * Throw unless every placeholder in `template` names a field `schema` has,
+ * and every formatter exists and suits that field's type.
+ */
+export function assertValidPromptTemplate(triggerName: string, template: string, schema: z.ZodTypeAny): void {
+  const invalid = (detail: string) => new Error(`Trigger "${triggerName}" has an invalid prompt: ${detail}.`)
+
+  let parts: PromptPart[]
+  try {
+    parts = parsePromptTemplate(template)
+  } catch (err) {
+    throw invalid(err instanceof Error ? err.message : String(err))
+  }
+
+  for (const part of parts) {
+    if (typeof part === 'string') continue
+
+    const found = lookup(schema, part.path, [])
+    if ('missing' in found) {
+      const hint = found.known.length > 0
+        ? ` (${found.parent ? `"${found.parent}" has` : 'fields are'}: ${found.known.join(', ')})`
+        : found.parent ? ` ("${found.parent}" has no fields)` : ''
+      throw invalid(`"${part.raw}" refers to unknown field "${found.missing}"${hint}`)
+    }
+
+    let kinds = found.kinds
+    for (const { name, arg } of part.formatters) {
+      const formatter = FORMATTERS[name]
+      if (!formatter) {
+        throw invalid(`unknown formatter "${name}" in "${part.raw}" (use ${Object.keys(FORMATTERS).join(', ')})`)
+      }
+      if (arg !== undefined && !formatter.argument) {
+        throw invalid(`formatter "${name}" takes no argument in "${part.raw}"`)
+      }
+      if (arg !== undefined && !isCurrencyCode(arg)) {
+        throw invalid(`unknown currency "${arg}" in "${part.raw}" (use an ISO 4217 code like EUR)`)
+      }
+      if (!kinds.some((kind) => kind === 'any' || formatter.accepts.includes(kind))) {
+        throw invalid(`"${part.raw}" formats a ${kinds.join(' or ')} with "${name}", which expects ${formatter.accepts.join(' or ')}`)
+      }
+      // Formatters chain: each one's text output feeds the next
+      kinds = ['string']
+    }
+  }
+}
+
+/**
+ * Render the prompt the agent sees when `trigger` fires with `payload`. The
+ * payload is parsed with the trigger's schema first, so defaults and
+ * transforms apply. Missing optional fields render as empty text; objects
+ * and lists render as JSON.
+ *
+ * @throws {z.ZodError} if the payload does not match the schema
+ *
+ * @example
+ * ```ts
+ * import { renderTriggerPrompt } from '@fo/sdk'
+ *
+ * assert.equal(
+ *   renderTriggerPrompt(dealCreated, { dealName: 'Acme', value: 240000 }),
+ *   'New deal "Acme" worth $240,000. Notify the founder.'
+ * )
+ * ```
+ */
+export function renderTriggerPrompt<TSchema extends z.ZodTypeAny>(
+  trigger: FoTrigger<TSchema>,
+  payload: z.input<TSchema>
+): string {
+  const values: unknown = trigger.schema.parse(payload)
+
+  return parsePromptTemplate(trigger.prompt)
+    .map((part) => {
+      if (typeof part === 'string') return part
+
+      const value = valueAt(values, part.path)
+      if (value === undefined || value === null) return ''
+      if (part.formatters.length === 0) return stringify(value)
+
+      let text: unknown = value
+      for (const { name, arg } of part.formatters) {
+        text = FORMATTERS[name]?.format(text, arg) ?? text
+      }
+      return String(text)
+    })
+    .join('')
+}
+
+function stringify(value: unknown): string {
+  if (value instanceof Date) return value.toISOString()
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function valueAt(values: unknown, path: readonly string[]): unknown {
+  let value = values
+  for (const key of path) {
+    if (typeof value !== 'object' || value === null) return undefined
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+function isCurrencyCode(code: string): boolean {
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: code })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// ─── Schema lookup ────────────────────────────────────────────────────────────
+// Zod schemas are read through `_def` rather than instanceof, so a schema
+// built with the app's own copy of zod works too.
+
+interface ZodDef {
+  typeName?: string
+  [key: string]: unknown
+}
+
+type Lookup =
+  | { kinds: ValueKind[] }
+  | { missing: string; parent: string; known: string[] }
+
+function lookup(schema: unknown, path: readonly string[], walked: readonly string[]): Lookup {
+  const inner = unwrap(schema)
+  const def = defOf(inner)
+
+  if (def.typeName === 'ZodUnion' || def.typeName === 'ZodDiscriminatedUnion') {
+    return merge((def.options as unknown[]).map((option) => lookup(option, path, walked)))
+  }
+  if (def.typeName === 'ZodIntersection') {
+    const sides = [lookup(def.left, path, walked), lookup(def.right, path, walked)]
+    return sides.find((side) => 'kinds' in side) ?? merge(sides)
+  }
+
+  const [key, ...rest] = path
+  if (key === undefined) return { kinds: [kindOf(inner)] }
+  const next = [...walked, key]
+  const missing = (known: string[]): Lookup => ({ missing: next.join('.'), parent: walked.join('.'), known })
+
+  switch (def.typeName) {
+    case 'ZodObject': {
+      const shape = (inner as { shape: Record<string, unknown> }).shape
+      if (Object.hasOwn(shape, key)) return lookup(shape[key], rest, next)
+      // .passthrough() or .catchall() let other keys through
+      if (def.unknownKeys === 'passthrough') return { kinds: ['any'] }
+      if (defOf(def.catchall).typeName !== 'ZodNever') return lookup(def.catchall, rest, next)
+      return missing(Object.keys(shape))
+    }
+    case 'ZodArray':
+      return /^\d+$/.test(key) ? lookup(def.type, rest, next) : missing([])
+    case 'ZodTuple': {
+      const items = def.items as unknown[]
+      return /^\d+$/.test(key) && Number(key) < items.length ? lookup(items[Number(key)], rest, next) : missing([])
+    }
+    case 'ZodRecord':
+      return lookup(def.valueType, rest, next)
+    case 'ZodAny':
+    case 'ZodUnknown':
+    case undefined:
+      return { kinds: ['any'] }
+    default:
+      return missing([])
+  }
+}
+
+function merge(results: Lookup[]): Lookup {
+  const found = results.filter((r): r is { kinds: ValueKind[] } => 'kinds' in r)
+  if (found.length > 0) return { kinds: [...new Set(found.flatMap((r) => r.kinds))] }
+  return results[0] ?? { kinds: ['any'] }
+}
+
+function kindOf(schema: unknown): ValueKind {
+  const def = defOf(schema)
+  switch (def.typeName) {
+    case 'ZodString':
+    case 'ZodEnum':
+      return 'string'
+    case 'ZodNumber':
+    case 'ZodBigInt':
+      return 'number'
+    case 'ZodBoolean':
+      return 'boolean'
+    case 'ZodDate':
+      return 'date'
+    case 'ZodLiteral': {
+      const type = typeof def.value
+      return type === 'string' || type === 'number' || type === 'boolean' ? type : 'other'
+    }
+    case 'ZodAny':
+    case 'ZodUnknown':
+    case 'ZodNativeEnum':
+    case undefined:
+      return 'any'
+    default:
+      return 'other'
+  }
+}
+
+/** Strip optional, nullable, default, refine and similar wrappers. */
+function unwrap(schema: unknown): unknown {
+  let current = schema
+  for (;;) {
+    const def = defOf(current)
+    switch (def.typeName) {
+      case 'ZodOptional':
+      case 'ZodNullable':
+      case 'ZodDefault':
+      case 'ZodCatch':
+      case 'ZodReadonly':
+        current = def.innerType
+        break
+      case 'ZodEffects':
+        current = def.schema
+        break
+      case 'ZodBranded':
+        current = def.type
+        break
+      case 'ZodLazy':
+        current = (def.getter as () => unknown)()
+        break
+      case 'ZodPipeline':
+        current = def.out
+        break
+      default:
+        return current
+    }
+  }
+}
+
+function defOf(schema: unknown): ZodDef {
+  return (schema as { _def?: ZodDef } | undefined)?._def ?? {}
+}
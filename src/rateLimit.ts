@@ -0,0 +1,54 @@
+// Local enforcement of `defineAction({ rateLimit })`: a token bucket for
+// `perMinute` and a semaphore for `concurrency`, per handler instance.
+
+import type { ActionRateLimit } from './types.js'
+
+export type RateLimitSlot =
+  | { acquired: true; release: () => void }
+  | { acquired: false; /** Seconds until a call would be accepted */ retryAfter: number }
+
+export interface RateLimiter {
+  /** Take a slot without waiting. Call `release` once the execution settles. */
+  tryAcquire(): RateLimitSlot
+}
+
+/**
+ * Create a limiter for one action. Calls over `perMinute` or beyond
+ * `concurrency` are refused rather than queued, so the caller can answer 429.
+ */
+export function createRateLimiter(limit: ActionRateLimit, now: () => number = Date.now): RateLimiter {
+  const capacity = limit.perMinute
+  const refillPerMs = capacity !== undefined ? capacity / 60_000 : 0
+  let tokens = capacity ?? 0
+  let refilledAt = now()
+  let active = 0
+
+  return {
+    tryAcquire() {
+      if (limit.concurrency !== undefined && active >= limit.concurrency) {
+        return { acquired: false, retryAfter: 1 }
+      }
+
+      if (capacity !== undefined) {
+        const t = now()
+        tokens = Math.min(capacity, tokens + (t - refilledAt) * refillPerMs)
+        refilledAt = t
+        if (tokens < 1) {
+          return { acquired: false, retryAfter: Math.max(1, Math.ceil((1 - tokens) / refillPerMs / 1000)) }
+        }
+        tokens -= 1
+      }
+
+      active++
+      let released = false
+      return {
+        acquired: true,
+        release: () => {
+          if (released) return
+          released = true
+          active--
+        },
+      }
+    },
+  }
+}
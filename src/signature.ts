@@ -0,0 +1,310 @@
+// Runtime-neutral webhook signature helpers. This module must not import
+// Node built-ins at runtime so it can load on edge runtimes (Next.js edge,
+// Cloudflare Workers, Bun, Deno) that only provide Web Crypto.
+
+import type { webcrypto } from 'node:crypto'
+import type {
+  WebhookPublicKey,
+  WebhookSecret,
+  WebhookSignatureScheme,
+  WebhookVerification,
+  WebhookVerificationKeys,
+} from './types.js'
+
+// Webhook calls older than this are rejected to prevent replay attacks
+export const TIMESTAMP_TOLERANCE_MS = 5 * 60 * 1000 // 5 minutes
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookVerificationError'
+  }
+}
+
+export type HeaderSource =
+  | Record<string, string | string[] | undefined>
+  | { get(name: string): string | null }
+
+/**
+ * Read the signature headers and reject stale timestamps.
+ * Shared by the Node (`node:crypto`) and Web Crypto verification paths.
+ */
+export function readSignatureHeaders(
+  headers: HeaderSource
+): { signature: string; timestamp: string } {
+  const signature = getHeader(headers, 'x-fo-signature')
+  const timestamp = getHeader(headers, 'x-fo-timestamp')
+
+  if (!signature) {
+    throw new WebhookVerificationError('Missing x-fo-signature header')
+  }
+
+  if (!timestamp) {
+    throw new WebhookVerificationError('Missing x-fo-timestamp header')
+  }
+
+  // Reject stale requests (replay attack protection)
+  const ts = parseInt(timestamp, 10)
+  if (isNaN(ts)) {
+    throw new WebhookVerificationError('Invalid x-fo-timestamp header')
+  }
+
+  const ageMs = Date.now() - ts * 1000
+  if (ageMs > TIMESTAMP_TOLERANCE_MS || ageMs < -60_000) {
+    throw new WebhookVerificationError(
+      `Webhook timestamp is too old or too far in the future. ` +
+      `Check that your server clock is synchronized.`
+    )
+  }
+
+  return { signature, timestamp }
+}
+
+/**
+ * Normalize a `WebhookSecret` into a list of active secrets. Unset entries
+ * (e.g. an old-secret env var that was already removed) are skipped.
+ */
+export function resolveSecrets(secret: WebhookSecret): string[] {
+  const secrets = keyList(secret)
+  if (secrets.length === 0) {
+    throw new WebhookVerificationError('No webhook secret configured')
+  }
+  return secrets
+}
+
+/**
+ * Normalize what signatures are checked against. A bare `WebhookSecret`
+ * means HMAC only; pass `{ publicKey }` to accept Ed25519 signatures.
+ */
+export function resolveKeys(
+  keys: WebhookSecret | WebhookVerificationKeys
+): { secrets: string[]; publicKeys: string[] } {
+  const { secret, publicKey } = typeof keys === 'string' || Array.isArray(keys)
+    ? { secret: keys as WebhookSecret, publicKey: undefined }
+    : keys as WebhookVerificationKeys
+  const resolved = { secrets: keyList(secret), publicKeys: keyList(publicKey) }
+  if (resolved.secrets.length === 0 && resolved.publicKeys.length === 0) {
+    throw new WebhookVerificationError('No webhook secret or public key configured')
+  }
+  return resolved
+}
+
+/**
+ * The shared secret to sign or encrypt replies with: the secret that matched
+ * an HMAC-signed request, or the primary secret for an Ed25519-signed one.
+ * Undefined when no secret is configured.
+ */
+export function replySecret(
+  keys: WebhookSecret | WebhookVerificationKeys,
+  verification: WebhookVerification
+): string | undefined {
+  const { secrets } = resolveKeys(keys)
+  return verification.scheme === 'sha256' ? secrets[verification.secretIndex] : secrets[0]
+}
+
+/** Refuse a signature scheme the handler has no keys for. */
+export function requireKeys(keys: string[], scheme: WebhookSignatureScheme): string[] {
+  if (keys.length === 0) {
+    throw new WebhookVerificationError(
+      scheme === 'sha256'
+        ? 'Received an HMAC signature but no webhook secret is configured'
+        : 'Received an Ed25519 signature but no webhook public key is configured'
+    )
+  }
+  return keys
+}
+
+/** Split an `x-fo-signature` value into its scheme and signature bytes. */
+export function parseSignature(signature: string): { scheme: WebhookSignatureScheme; bytes: Uint8Array } {
+  if (signature.startsWith('sha256=')) {
+    const bytes = hexToBytes(signature.slice('sha256='.length))
+    if (bytes) return { scheme: 'sha256', bytes }
+  } else if (signature.startsWith('ed25519=')) {
+    const bytes = base64ToBytes(signature.slice('ed25519='.length))
+    if (bytes?.length === 64) return { scheme: 'ed25519', bytes }
+  }
+  throw new WebhookVerificationError('Invalid webhook signature')
+}
+
+// DER prefix that wraps a raw 32-byte Ed25519 key as SubjectPublicKeyInfo
+export const ED25519_SPKI_PREFIX = hexToBytes('302a300506032b6570032100') as Uint8Array
+
+/** Decode a PEM (SPKI) or base64 raw 32-byte Ed25519 public key. */
+export function decodePublicKey(key: string): { format: 'spki' | 'raw'; bytes: Uint8Array } {
+  const pem = /-----BEGIN PUBLIC KEY-----([\s\S]+?)-----END PUBLIC KEY-----/.exec(key)
+  const bytes = base64ToBytes(pem ? (pem[1] ?? '').replace(/\s+/g, '') : key.trim())
+  if (bytes && (pem ? isEd25519Spki(bytes) : bytes.length === 32)) {
+    return { format: pem ? 'spki' : 'raw', bytes }
+  }
+  throw new WebhookVerificationError('Invalid Ed25519 public key')
+}
+
+function isEd25519Spki(bytes: Uint8Array): boolean {
+  return bytes.length === ED25519_SPKI_PREFIX.length + 32 && ED25519_SPKI_PREFIX.every((b, i) => bytes[i] === b)
+}
+
+/**
+ * Verify a webhook call came from Fo using Web Crypto (`crypto.subtle`).
+ *
+ * Same checks as `verifyWebhook`, but works on runtimes without `node:crypto`.
+ * Accepts either a plain header object or a WHATWG `Headers` instance.
+ * Ed25519 needs a runtime whose Web Crypto supports it (Node 18.4+, Workers, Deno).
+ *
+ * @returns which of the active secrets matched
+ * @throws {WebhookVerificationError} if signature is invalid or timestamp is stale
+ *
+ * @example
+ * ```ts
+ * // Next.js App Router (edge)
+ * export async function POST(req: Request) {
+ *   const body = await req.text()
+ *   await verifyWebhookAsync(body, req.headers, process.env.FO_WEBHOOK_SECRET!)
+ *   // safe to process...
+ * }
+ * ```
+ */
+export async function verifyWebhookAsync(
+  body: string,
+  headers: HeaderSource,
+  secret: WebhookSecret | WebhookVerificationKeys
+): Promise<WebhookVerification> {
+  const { secrets, publicKeys } = resolveKeys(secret)
+  const { signature, timestamp } = readSignatureHeaders(headers)
+  const { scheme, bytes } = parseSignature(signature)
+  const data = `${timestamp}.${body}`
+
+  return scheme === 'ed25519'
+    ? verifyEd25519(data, bytes, requireKeys(publicKeys, 'ed25519'))
+    : verifyHmac(data, bytes, requireKeys(secrets, 'sha256'))
+}
+
+/**
+ * Sign a webhook response body, so Fo can check it came from your handler.
+ * The signature covers the timestamp, the request id it answers and the
+ * body: `sha256=HMAC(timestamp.requestId.body, secret)`. Handlers with
+ * `responses: 'signed'` or `'encrypted'` do this for you.
+ */
+export async function signWebhookResponse(
+  body: string,
+  requestId: string,
+  secret: string
+): Promise<{ signature: string; timestamp: string }> {
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const subtle = await getSubtleCrypto()
+  const key = await importHmacKey(subtle, secret, 'sign')
+  const mac = await subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${requestId}.${body}`))
+  return { signature: `sha256=${bytesToHex(new Uint8Array(mac))}`, timestamp }
+}
+
+/**
+ * Verify a signed webhook response — the counterpart of `signWebhookResponse`,
+ * as Fo runs it. Useful in tests of handlers that sign their responses.
+ *
+ * @returns which of the active secrets matched
+ * @throws {WebhookVerificationError} if signature is invalid or timestamp is stale
+ */
+export async function verifyWebhookResponse(
+  body: string,
+  headers: HeaderSource,
+  requestId: string,
+  secret: WebhookSecret
+): Promise<WebhookVerification> {
+  const secrets = resolveSecrets(secret)
+  const { signature, timestamp } = readSignatureHeaders(headers)
+  const { scheme, bytes } = parseSignature(signature)
+  if (scheme !== 'sha256') {
+    throw new WebhookVerificationError('Invalid webhook signature')
+  }
+
+  return verifyHmac(`${timestamp}.${requestId}.${body}`, bytes, secrets)
+}
+
+export function getHeader(headers: HeaderSource, name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name) ?? undefined
+  }
+  const val = (headers as Record<string, string | string[] | undefined>)[name]
+  return Array.isArray(val) ? val[0] : val
+}
+
+async function verifyHmac(data: string, received: Uint8Array, secrets: string[]): Promise<WebhookVerification> {
+  // subtle.verify compares in constant time
+  const subtle = await getSubtleCrypto()
+  const bytes = new TextEncoder().encode(data)
+
+  for (const [secretIndex, candidate] of secrets.entries()) {
+    const key = await importHmacKey(subtle, candidate, 'verify')
+    if (await subtle.verify('HMAC', key, received, bytes)) {
+      return { scheme: 'sha256', secretIndex }
+    }
+  }
+
+  throw new WebhookVerificationError('Invalid webhook signature')
+}
+
+async function verifyEd25519(data: string, received: Uint8Array, publicKeys: string[]): Promise<WebhookVerification> {
+  const subtle = await getSubtleCrypto()
+  const bytes = new TextEncoder().encode(data)
+
+  for (const [secretIndex, candidate] of publicKeys.entries()) {
+    const { format, bytes: keyBytes } = decodePublicKey(candidate)
+    let key
+    try {
+      key = await subtle.importKey(format as 'raw', keyBytes, { name: 'Ed25519' }, false, ['verify'])
+    } catch {
+      throw new WebhookVerificationError('Invalid Ed25519 public key')
+    }
+    if (await subtle.verify({ name: 'Ed25519' }, key, received, bytes)) {
+      return { scheme: 'ed25519', secretIndex }
+    }
+  }
+
+  throw new WebhookVerificationError('Invalid webhook signature')
+}
+
+function importHmacKey(
+  subtle: webcrypto.SubtleCrypto,
+  secret: string,
+  usage: 'sign' | 'verify'
+): Promise<webcrypto.CryptoKey> {
+  return subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [usage])
+}
+
+export async function getWebCrypto(): Promise<webcrypto.Crypto> {
+  if (globalThis.crypto?.subtle) return globalThis.crypto as webcrypto.Crypto
+  // Node 18 does not expose Web Crypto as a global
+  const nodeCrypto = await import('node:crypto')
+  return nodeCrypto.webcrypto as webcrypto.Crypto
+}
+
+async function getSubtleCrypto(): Promise<webcrypto.SubtleCrypto> {
+  return (await getWebCrypto()).subtle
+}
+
+/** Non-empty entries of a secret or public key option. */
+export function keyList(value: string | readonly string[] | undefined): string[] {
+  if (value === undefined) return []
+  return (typeof value === 'string' ? [value] : [...value]).filter(Boolean)
+}
+
+export function base64ToBytes(value: string): Uint8Array | null {
+  if (value.length === 0) return null
+  try {
+    return Uint8Array.from(atob(value), (c) => c.charCodeAt(0))
+  } catch {
+    return null
+  }
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length === 0 || hex.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(hex)) return null
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
@@ -15,19 +15,25 @@
  * ```
  */
 
-import { createHmac } from 'crypto'
-import type { ToolContext, WebhookPayload } from './types.js'
+import { createHmac, sign, type KeyObject } from 'crypto'
+import type { LogEntry, LogFields, LogLevel, ToolContext, WebhookPayload } from './types.js'
 
 // ─── Context helpers ──────────────────────────────────────────────────────────
 
 /**
  * Create a mock ToolContext for unit testing tool execute functions.
- * Logs are captured in the `logs` array so you can assert on them.
+ * Log messages are captured in `logs`, and structured entries from both
+ * `log` and `logger` in `entries`, so you can assert on them.
  */
 export function createMockToolContext(overrides: Partial<ToolContext> & {
   env?: Record<string, string>
-} = {}): ToolContext & { logs: string[] } {
+} = {}): ToolContext & { logs: string[]; entries: LogEntry[] } {
   const logs: string[] = []
+  const entries: LogEntry[] = []
+  const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    logs.push(message)
+    entries.push({ level, message, fields })
+  }
 
   return {
     message: {
@@ -43,28 +49,41 @@ export function createMockToolContext(overrides: Partial<ToolContext> & {
       email: 'agent@foibleai.com',
     },
     env: {},
-    log: (msg: string) => {
-      logs.push(msg)
+    log: (msg: string) => write('info')(msg),
+    logger: {
+      debug: write('debug'),
+      info: write('info'),
+      warn: write('warn'),
+      error: write('error'),
     },
+    signal: new AbortController().signal,
     ...overrides,
     logs,
+    entries,
   }
 }
 
 // ─── Webhook helpers ──────────────────────────────────────────────────────────
 
+/**
+ * Key to sign test requests with: a webhook secret (HMAC), or an Ed25519
+ * private key for handlers configured with `publicKey`.
+ */
+export type MockSigningKey = string | { privateKey: KeyObject | string }
+
 /**
  * Sign a webhook payload the same way Fo does.
  * Use this to create valid signed requests for testing createToolHandler.
  */
 export function signWebhookPayload(
   body: string,
-  secret: string
+  secret: MockSigningKey
 ): { signature: string; timestamp: string } {
   const timestamp = Math.floor(Date.now() / 1000).toString()
-  const signature = `sha256=${createHmac('sha256', secret)
-    .update(`${timestamp}.${body}`)
-    .digest('hex')}`
+  const data = `${timestamp}.${body}`
+  const signature = typeof secret === 'string'
+    ? `sha256=${createHmac('sha256', secret).update(data).digest('hex')}`
+    : `ed25519=${sign(null, Buffer.from(data, 'utf8'), secret.privateKey).toString('base64')}`
   return { signature, timestamp }
 }
 
@@ -75,11 +94,11 @@ export function signWebhookPayload(
 export function createMockWebhookRequest(
   toolName: string,
   params: Record<string, unknown>,
-  secret: string,
+  secret: MockSigningKey,
   contextOverrides: Partial<ToolContext> = {}
 ): { body: string; headers: Record<string, string>; payload: WebhookPayload } {
   const context = createMockToolContext(contextOverrides)
-  const { logs: _logs, ...safeContext } = context as ToolContext & { logs: string[] }
+  const { logs: _logs, entries: _entries, ...safeContext } = context
 
   const payload: WebhookPayload = {
     tool: toolName,
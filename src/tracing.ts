@@ -0,0 +1,132 @@
+// OpenTelemetry instrumentation for the handlers and FoClient.
+// `@opentelemetry/api` is an optional peer dependency: it is only imported
+// once a `tracer` is passed, so untraced handlers never load it.
+
+import type { Attributes, Span, SpanContext, Tracer } from '@opentelemetry/api'
+import type { HandlerResponse } from './handler.js'
+
+export type { Tracer }
+
+// Numeric values of the SpanKind / SpanStatusCode enums, so they can be used
+// without importing the API module eagerly
+const SPAN_KIND_SERVER = 1
+const SPAN_KIND_CLIENT = 2
+const SPAN_STATUS_ERROR = 2
+
+let otelApi: Promise<typeof import('@opentelemetry/api')> | undefined
+
+function loadOtelApi(): Promise<typeof import('@opentelemetry/api')> {
+  otelApi ??= import('@opentelemetry/api')
+  return otelApi
+}
+
+/**
+ * The `fo.action` span for one webhook call. Each step (`fo.verify`,
+ * `fo.parse`, `fo.execute`) becomes a child span.
+ */
+export interface RequestTrace {
+  /** Run `fn` inside a child span. Errors thrown by `fn` are recorded on it. */
+  step<T>(name: string, fn: () => T | Promise<T>): Promise<T>
+  setAttributes(attributes: Attributes): void
+  /** End the span, recording `fo.outcome` (`success` or the error `code`). */
+  end(response: HandlerResponse): void
+}
+
+/** Used when no tracer is configured. */
+export const NOOP_TRACE: RequestTrace = {
+  step: async (_name, fn) => fn(),
+  setAttributes: () => {},
+  end: () => {},
+}
+
+/**
+ * Start the span for an incoming webhook call. A valid W3C `traceparent`
+ * header makes it a child of the caller's span. Without a tracer this
+ * returns a no-op trace.
+ */
+export async function startRequestTrace(
+  tracer: Tracer | undefined,
+  traceparent: string | undefined
+): Promise<RequestTrace> {
+  if (!tracer) return NOOP_TRACE
+
+  const { context, trace } = await loadOtelApi()
+  const remote = parseTraceparent(traceparent)
+  const parentContext = remote ? trace.setSpanContext(context.active(), remote) : context.active()
+  const root = tracer.startSpan('fo.action', { kind: SPAN_KIND_SERVER }, parentContext)
+  const rootContext = trace.setSpan(parentContext, root)
+
+  return {
+    async step(name, fn) {
+      const span = tracer.startSpan(name, {}, rootContext)
+      try {
+        return await context.with(trace.setSpan(rootContext, span), fn)
+      } catch (err) {
+        recordError(span, err)
+        throw err
+      } finally {
+        span.end()
+      }
+    },
+    setAttributes(attributes) {
+      root.setAttributes(attributes)
+    },
+    end(response) {
+      const outcome = response.status < 400 ? 'success' : responseCode(response)
+      root.setAttributes({ 'fo.outcome': outcome, 'http.response.status_code': response.status })
+      if (outcome !== 'success') root.setStatus({ code: SPAN_STATUS_ERROR, message: outcome })
+      root.end()
+    },
+  }
+}
+
+/**
+ * Run an outgoing request inside a client span. `fn` receives the
+ * `traceparent` header value to send, or undefined without a tracer.
+ */
+export async function withClientSpan<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: Attributes,
+  fn: (traceparent: string | undefined) => Promise<T>
+): Promise<T> {
+  if (!tracer) return fn(undefined)
+
+  const { context } = await loadOtelApi()
+  const span = tracer.startSpan(name, { kind: SPAN_KIND_CLIENT, attributes }, context.active())
+  try {
+    return await fn(formatTraceparent(span.spanContext()))
+  } catch (err) {
+    recordError(span, err)
+    throw err
+  } finally {
+    span.end()
+  }
+}
+
+/** Parse a W3C `traceparent` header. Returns undefined when absent or malformed. */
+export function parseTraceparent(header: string | undefined): SpanContext | undefined {
+  const match = header ? /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(header.trim()) : null
+  if (!match || !match[1] || !match[2] || !match[3] || !match[4]) return undefined
+
+  const [, version, traceId, spanId, flags] = match
+  if (version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined
+
+  return { traceId, spanId, traceFlags: parseInt(flags, 16), isRemote: true }
+}
+
+export function formatTraceparent(spanContext: SpanContext): string {
+  const flags = (spanContext.traceFlags & 0xff).toString(16).padStart(2, '0')
+  return `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`
+}
+
+function recordError(span: Span, err: unknown): void {
+  const error = err instanceof Error ? err : new Error(String(err))
+  span.recordException(error)
+  span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message })
+}
+
+function responseCode(response: HandlerResponse): string {
+  const body = response.body as { code?: unknown } | null
+  return typeof body?.code === 'string' ? body.code : 'error'
+}
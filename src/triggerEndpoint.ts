@@ -0,0 +1,264 @@
+// Trigger endpoints: receive a third-party webhook (Stripe, GitHub, HubSpot,
+// ...), verify the provider's signature, map the body onto a trigger's schema
+// and fire the trigger on Fo. Built-in verifiers cover common HMAC styles.
+
+import type { z } from 'zod'
+import type { FoClient } from './client.js'
+import { errorResponse, type HandlerResponse } from './handler.js'
+import { consoleLogSink, createActionLogger } from './logger.js'
+import {
+  base64ToBytes,
+  getHeader,
+  getWebCrypto,
+  hexToBytes,
+  keyList,
+  WebhookVerificationError,
+  type HeaderSource,
+} from './signature.js'
+import type { FoTrigger, LogSink, WebhookSecret } from './types.js'
+
+/** An inbound webhook request, as far as verifiers and `map` need it. */
+export interface InboundWebhook {
+  method: string
+  /** Full request URL as the handler sees it */
+  url: string
+  headers: HeaderSource
+  /** Raw body, exactly as received — signatures are computed over it */
+  rawBody: string
+}
+
+/**
+ * Checks that a request came from the provider. Throw (ideally a
+ * `WebhookVerificationError`) or return `false` to reject it with a 401.
+ */
+export type TriggerVerifier = (request: InboundWebhook) => void | boolean | Promise<void | boolean>
+
+export interface TriggerEndpointOptions<TSchema extends z.ZodTypeAny> {
+  /** Client the event is fired through */
+  client: Pick<FoClient, 'triggers'>
+  /** Agent subdomain (e.g. 'atlas' for atlas@foibleai.com) */
+  agentEmail: string
+  /**
+   * Signature check for the provider: `stripeVerifier`, `githubVerifier`,
+   * `hubspotVerifier`, `hmacVerifier`, or your own function.
+   */
+  verify: TriggerVerifier
+  /**
+   * Turn the provider's JSON body into the trigger's payload. Return `null`
+   * to acknowledge an event without firing, e.g. event types you don't
+   * handle. Defaults to passing the body through.
+   */
+  map?: ((body: unknown, request: InboundWebhook) => z.input<TSchema> | null | Promise<z.input<TSchema> | null>) | undefined
+  /** Reject bodies larger than this. Defaults to 1 MiB. */
+  maxBodyBytes?: number | undefined
+  /**
+   * Receives errors thrown by `verify`, `map` and firing, and the schema
+   * issues behind a 422. The provider only sees a generic message. Defaults
+   * to the console.
+   */
+  logger?: LogSink | undefined
+}
+
+/**
+ * Verify, map and fire one inbound webhook. Answers 401 for a bad
+ * signature, 422 when the mapped payload doesn't match the trigger's schema,
+ * and 500 when firing fails — so the provider redelivers. Error details go
+ * to `options.logger`, never to the provider.
+ */
+export async function handleTriggerWebhook<TSchema extends z.ZodTypeAny>(
+  trigger: FoTrigger<TSchema>,
+  request: InboundWebhook,
+  options: TriggerEndpointOptions<TSchema>
+): Promise<HandlerResponse> {
+  const logger = createActionLogger(options.logger ?? consoleLogSink, {
+    tool: trigger.name,
+    requestId: '-',
+    agentId: options.agentEmail,
+  })
+  const failed = (message: string, err: unknown) => {
+    logger.error(message, { err })
+    return errorResponse(500, 'internal_error', message)
+  }
+
+  try {
+    if ((await options.verify(request)) === false) {
+      return errorResponse(401, 'invalid_signature', 'Invalid webhook signature')
+    }
+  } catch (err) {
+    if (err instanceof WebhookVerificationError) {
+      return errorResponse(401, 'invalid_signature', err.message)
+    }
+    return failed('Webhook verification failed', err)
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(request.rawBody)
+  } catch {
+    return errorResponse(400, 'invalid_request', 'Invalid JSON body')
+  }
+
+  let payload: unknown
+  try {
+    payload = options.map ? await options.map(body, request) : body
+  } catch (err) {
+    return failed('Failed to map webhook body', err)
+  }
+  if (payload === null || payload === undefined) {
+    return { status: 200, body: { success: true, result: { fired: false } } }
+  }
+
+  const parsed = trigger.schema.safeParse(payload)
+  if (!parsed.success) {
+    const message = `Payload does not match trigger "${trigger.name}"`
+    logger.warn(message, { issues: parsed.error.issues })
+    return errorResponse(422, 'invalid_input', message)
+  }
+
+  try {
+    await options.client.triggers.fire(options.agentEmail, trigger, payload as z.input<TSchema>)
+  } catch (err) {
+    return failed('Failed to fire trigger', err)
+  }
+
+  return { status: 200, body: { success: true, result: { fired: true } } }
+}
+
+/** Throw unless the endpoint options are usable. */
+export function assertTriggerEndpointOptions(options: TriggerEndpointOptions<z.ZodTypeAny>): void {
+  if (!options.agentEmail) throw new Error('createTriggerEndpoint: agentEmail is required')
+  if (typeof options.verify !== 'function') {
+    throw new Error(
+      'createTriggerEndpoint: verify is required. Use a built-in verifier such as ' +
+      'stripeVerifier(secret), or pass your own function.'
+    )
+  }
+}
+
+// ─── Verifiers ────────────────────────────────────────────────────────────────
+
+type HmacAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-512'
+
+export interface HmacVerifierOptions {
+  /** Header carrying the signature, e.g. 'x-signature' */
+  header: string
+  /** Shared secret(s). Pass `[newSecret, oldSecret]` while rotating. */
+  secret: WebhookSecret
+  /** Defaults to 'SHA-256' */
+  algorithm?: HmacAlgorithm | undefined
+  /** How the signature is encoded. Defaults to 'hex'. */
+  encoding?: 'hex' | 'base64' | undefined
+  /** Text before the signature in the header, e.g. 'sha256=' */
+  prefix?: string | undefined
+  /** What is signed. Defaults to the raw body. */
+  signedPayload?: ((request: InboundWebhook) => string) | undefined
+}
+
+/**
+ * Verify an HMAC signature sent in a single header — the style most
+ * providers use.
+ *
+ * @example
+ * ```ts
+ * hmacVerifier({ header: 'x-linear-signature', secret: process.env.LINEAR_WEBHOOK_SECRET! })
+ * ```
+ */
+export function hmacVerifier(options: HmacVerifierOptions): TriggerVerifier {
+  const secrets = requireSecrets(options.secret, 'hmacVerifier')
+  const prefix = options.prefix ?? ''
+
+  return async (request) => {
+    const header = getHeader(request.headers, options.header.toLowerCase())
+    if (!header) throw new WebhookVerificationError(`Missing ${options.header} header`)
+    if (!header.startsWith(prefix)) throw new WebhookVerificationError('Invalid webhook signature')
+
+    const signed = options.signedPayload ? options.signedPayload(request) : request.rawBody
+    await verifyHmacSignature(signed, [header.slice(prefix.length)], secrets, options.algorithm ?? 'SHA-256', options.encoding ?? 'hex')
+  }
+}
+
+/**
+ * Verify Stripe's `Stripe-Signature` header (`t=…,v1=…`), rejecting events
+ * older than `toleranceSeconds` (default 300).
+ */
+export function stripeVerifier(secret: WebhookSecret, options: { toleranceSeconds?: number } = {}): TriggerVerifier {
+  const secrets = requireSecrets(secret, 'stripeVerifier')
+  const tolerance = options.toleranceSeconds ?? 300
+
+  return async (request) => {
+    const header = getHeader(request.headers, 'stripe-signature')
+    if (!header) throw new WebhookVerificationError('Missing Stripe-Signature header')
+
+    const fields = header.split(',').map((part) => part.split('=', 2) as [string, string | undefined])
+    const timestamp = fields.find(([key]) => key === 't')?.[1]
+    const signatures = fields.filter(([key]) => key === 'v1').map(([, value]) => value ?? '')
+    if (!timestamp || signatures.length === 0) {
+      throw new WebhookVerificationError('Invalid Stripe-Signature header')
+    }
+
+    assertFresh(Number(timestamp) * 1000, tolerance)
+    await verifyHmacSignature(`${timestamp}.${request.rawBody}`, signatures, secrets, 'SHA-256', 'hex')
+  }
+}
+
+/** Verify GitHub's `X-Hub-Signature-256` header (`sha256=…`). */
+export function githubVerifier(secret: WebhookSecret): TriggerVerifier {
+  return hmacVerifier({ header: 'x-hub-signature-256', secret, prefix: 'sha256=' })
+}
+
+/**
+ * Verify HubSpot's v3 signature (`X-HubSpot-Signature-v3` over method, URL,
+ * body and `X-HubSpot-Request-Timestamp`). Pass `url` — the endpoint URL as
+ * registered with HubSpot — when a proxy changes the URL the handler sees.
+ */
+export function hubspotVerifier(secret: WebhookSecret, options: { url?: string } = {}): TriggerVerifier {
+  const secrets = requireSecrets(secret, 'hubspotVerifier')
+
+  return async (request) => {
+    const signature = getHeader(request.headers, 'x-hubspot-signature-v3')
+    const timestamp = getHeader(request.headers, 'x-hubspot-request-timestamp')
+    if (!signature || !timestamp) {
+      throw new WebhookVerificationError('Missing X-HubSpot-Signature-v3 or X-HubSpot-Request-Timestamp header')
+    }
+
+    assertFresh(Number(timestamp), 300)
+    const signed = `${request.method.toUpperCase()}${options.url ?? request.url}${request.rawBody}${timestamp}`
+    await verifyHmacSignature(signed, [signature], secrets, 'SHA-256', 'base64')
+  }
+}
+
+function requireSecrets(secret: WebhookSecret, name: string): string[] {
+  const secrets = keyList(secret)
+  if (secrets.length === 0) throw new Error(`${name}: a webhook secret is required`)
+  return secrets
+}
+
+function assertFresh(sentAtMs: number, toleranceSeconds: number): void {
+  if (!Number.isFinite(sentAtMs) || Math.abs(Date.now() - sentAtMs) > toleranceSeconds * 1000) {
+    throw new WebhookVerificationError('Webhook timestamp is too old or too far in the future')
+  }
+}
+
+async function verifyHmacSignature(
+  data: string,
+  signatures: string[],
+  secrets: string[],
+  algorithm: HmacAlgorithm,
+  encoding: 'hex' | 'base64'
+): Promise<void> {
+  // subtle.verify compares in constant time
+  const { subtle } = await getWebCrypto()
+  const bytes = new TextEncoder().encode(data)
+  const received = signatures
+    .map((s) => (encoding === 'hex' ? hexToBytes(s.trim()) : base64ToBytes(s.trim())))
+    .filter((s): s is Uint8Array => s !== null)
+
+  for (const secret of secrets) {
+    const key = await subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: algorithm }, false, ['verify'])
+    for (const signature of received) {
+      if (await subtle.verify('HMAC', key, signature, bytes)) return
+    }
+  }
+
+  throw new WebhookVerificationError('Invalid webhook signature')
+}
@@ -25,8 +25,150 @@ export interface ToolContext {
   agent: AgentContext
   /** Environment variables declared in the tool's `env` array, guaranteed present */
   env: Record<string, string>
-  /** Tool-scoped logger — appears in Fo dashboard logs */
+  /** Tool-scoped logger — appears in Fo dashboard logs. Shorthand for `logger.info(message)`. */
   log: (message: string) => void
+  /**
+   * Leveled, structured logger. Entries carry `tool`, `requestId`, `agentId`
+   * and `durationMs` automatically; pass extra fields as the second argument.
+   */
+  logger: ActionLogger
+  /**
+   * Aborts when the action exceeds its `timeoutMs` or Fo disconnects.
+   * Pass it to fetch() and other cancellable calls; `signal.reason` says why.
+   */
+  signal: AbortSignal
+  /**
+   * Set when a human approved this call before it ran (see `hitl`).
+   * Undefined for calls that needed no approval.
+   */
+  approval?: ApprovalGrant | undefined
+}
+
+// ─── Logging ───────────────────────────────────────────────────────────────────
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface LogEntry {
+  level: LogLevel
+  message: string
+  /** Caller fields plus `tool`, `requestId`, `agentId` and `durationMs` */
+  fields: LogFields
+}
+
+/**
+ * Receives every log entry. Route entries into pino, winston or any other
+ * logger by passing a sink as the handler's `logger` option.
+ */
+export type LogSink = (entry: LogEntry) => void
+
+export interface ActionLogger {
+  debug: (message: string, fields?: LogFields) => void
+  info: (message: string, fields?: LogFields) => void
+  warn: (message: string, fields?: LogFields) => void
+  error: (message: string, fields?: LogFields) => void
+}
+
+// ─── Async Actions ─────────────────────────────────────────────────────────────
+
+/**
+ * A status report for an async action job, sent to Fo via
+ * `FoClient.actions.complete()`.
+ */
+export type ActionJobUpdate =
+  | { status: 'running'; progress: number; note?: string }
+  | { status: 'completed'; result: unknown }
+  | { status: 'failed'; error: string; code: ActionErrorCode }
+
+/**
+ * Context for actions defined with `mode: 'async'`. The handler has already
+ * answered `202 Accepted`; report the outcome with `complete` or `fail`.
+ * Returning a value completes the job, and throwing fails it.
+ */
+export interface AsyncToolContext extends ToolContext {
+  /** Job id returned to Fo in the 202 response */
+  jobId: string
+  /** Report the final result. Later calls are ignored. */
+  complete: (result?: unknown) => Promise<void>
+  /** Report failure. Later calls are ignored. */
+  fail: (error: Error | string) => Promise<void>
+  /** Report progress (0–100) with an optional note shown in the Fo dashboard. */
+  progress: (pct: number, note?: string) => Promise<void>
+}
+
+// ─── Approvals ─────────────────────────────────────────────────────────────────
+
+/** Who approved a call, as seen by `execute` on `ToolContext.approval`. */
+export interface ApprovalGrant {
+  /** Id of the approval request */
+  id: string
+  /** Email address of the approver */
+  approvedBy: string
+  /** ISO 8601 time of the decision */
+  approvedAt: string
+  note?: string | undefined
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired'
+
+/** How a pending approval was settled. */
+export interface ApprovalResolution {
+  decision: Exclude<ApprovalStatus, 'pending'>
+  /** Email address of whoever decided. Absent when the request expired. */
+  by?: string | undefined
+  /** ISO 8601 time of the decision */
+  at: string
+  note?: string | undefined
+}
+
+/** An action call waiting on (or settled by) a human decision. */
+export interface ApprovalRequest {
+  id: string
+  agentId: string
+  /** Action the agent wants to call */
+  tool: string
+  /** Validated params the action would run with */
+  params: Record<string, unknown>
+  /** The message that led the agent to make the call */
+  message: MessageContext
+  /** ISO 8601 */
+  requestedAt: string
+  /** ISO 8601. Pending requests expire — and are denied — after this. */
+  expiresAt?: string | undefined
+  status: ApprovalStatus
+  /** Set once the request is no longer pending */
+  resolution?: ApprovalResolution | undefined
+}
+
+export interface ApprovalRequestedEvent {
+  type: 'approval.requested'
+  /** Unique per event — redeliveries repeat it */
+  eventId: string
+  approval: ApprovalRequest
+}
+
+export interface ApprovalResolvedEvent {
+  type: 'approval.resolved'
+  /** Unique per event — redeliveries repeat it */
+  eventId: string
+  approval: ApprovalRequest & { resolution: ApprovalResolution }
+}
+
+/**
+ * Signed event Fo sends to `actions.approvals.webhookUrl`. Serve it with
+ * `createApprovalHandler()`.
+ */
+export type ApprovalEvent = ApprovalRequestedEvent | ApprovalResolvedEvent
+
+/** Where Fo sends approval events. */
+export interface ApprovalWebhookConfig {
+  /** HTTPS URL serving `createApprovalHandler()` */
+  webhookUrl: string
+  /** Secret Fo signs events with. Not needed for `signatureScheme: 'ed25519'`. */
+  webhookSecret?: WebhookSecret | undefined
+  /** Defaults to `actions.signatureScheme`, then `'sha256'` */
+  signatureScheme?: WebhookSignatureScheme | undefined
 }
 
 // ─── Action Definition (v2) ────────────────────────────────────────────────────
@@ -39,22 +181,132 @@ export interface ToolContext {
  */
 export type HitlMode = 'auto' | 'always' | 'never'
 
-export interface FoAction<TParams extends z.ZodSchema = z.ZodSchema> {
+/**
+ * Comparison applied to one validated param. Every operator given must hold.
+ * Values are JSON so the policy can be shipped to Fo on deploy.
+ */
+export interface HitlCondition {
+  eq?: string | number | boolean | null | undefined
+  ne?: string | number | boolean | null | undefined
+  gt?: number | undefined
+  gte?: number | undefined
+  lt?: number | undefined
+  lte?: number | undefined
+  in?: ReadonlyArray<string | number | boolean> | undefined
+  notIn?: ReadonlyArray<string | number | boolean> | undefined
+  /** `true` when the param is present (not undefined or null) */
+  exists?: boolean | undefined
+}
+
+/**
+ * Conditions on validated params, keyed by param name or dot path
+ * (`'deal.value'`). Matches when every condition holds.
+ */
+export type HitlConditions = Record<string, HitlCondition>
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'
+
+/** A recurring time window, e.g. business hours. */
+export interface HitlTimeWindow {
+  /** `'HH:MM'`, 24-hour */
+  start: string
+  /** `'HH:MM'`, 24-hour, exclusive. Earlier than `start` for overnight windows. */
+  end: string
+  /** IANA timezone. Defaults to UTC. */
+  timezone?: string | undefined
+  /** Days the window applies on (by the day it starts). Defaults to every day. */
+  days?: readonly Weekday[] | undefined
+}
+
+/**
+ * Declarative approval rules, evaluated against each call. Approval is
+ * required when any rule fires; otherwise `otherwise` applies.
+ *
+ * @example
+ * ```ts
+ * hitl: {
+ *   when: { value: { gt: 10000 } },             // large deals
+ *   allowSenders: ['*@acme.com'],               // anyone outside Acme
+ *   outsideHours: { start: '09:00', end: '18:00', timezone: 'America/New_York', days: ['mon', 'tue', 'wed', 'thu', 'fri'] },
+ * }
+ * ```
+ */
+export interface HitlPolicy {
+  /** Require approval when params match. An array matches when any entry does. */
+  when?: HitlConditions | readonly HitlConditions[] | undefined
+  /**
+   * Senders (`message.from`) who may trigger the action without approval —
+   * exact addresses or `'*@domain.com'`. Everyone else needs approval.
+   */
+  allowSenders?: readonly string[] | undefined
+  /** Require approval for calls outside this window. */
+  outsideHours?: HitlTimeWindow | undefined
+  /** Mode when no rule fires. Defaults to `'never'`. */
+  otherwise?: 'auto' | 'never' | undefined
+}
+
+/** The outcome of evaluating `hitl` for one call. */
+export interface HitlDecision {
+  /** `'always'` means approval is required for this call */
+  mode: HitlMode
+  /** Rules that required approval, e.g. `'when: value gt 10000'` */
+  reasons: string[]
+}
+
+/** Limits on how often an action may be called. Set at least one. */
+export interface ActionRateLimit {
+  /** Calls allowed per minute, refilled continuously (token bucket) */
+  perMinute?: number | undefined
+  /** Calls allowed to run at the same time */
+  concurrency?: number | undefined
+}
+
+/**
+ * How Fo waits for an action's result.
+ * - `'sync'`  — the result is the webhook response (default)
+ * - `'async'` — the webhook answers `202 Accepted` with a job id, and the
+ *               result arrives later through `FoClient.actions.complete()`
+ */
+export type ActionMode = 'sync' | 'async'
+
+/** Result type of an action: inferred from its `output` schema, `unknown` without one. */
+export type ActionOutput<TOutput extends z.ZodTypeAny | undefined> =
+  TOutput extends z.ZodTypeAny ? z.infer<TOutput> : unknown
+
+export interface FoAction<
+  TParams extends z.ZodSchema = z.ZodSchema,
+  TOutput extends z.ZodTypeAny | undefined = z.ZodTypeAny | undefined,
+> {
   readonly name: string
   readonly description: string
   readonly parameters: TParams
+  /**
+   * Zod schema for the result. When set, results are validated before they
+   * are returned to Fo, and the JSON Schema is shipped on deploy.
+   */
+  readonly output?: TOutput
   /** Environment variable names this action requires. Validated at deploy time. */
   readonly env: readonly string[]
-  /** Human-in-the-loop mode. Defaults to 'auto'. */
-  readonly hitl: HitlMode
-  readonly execute: (params: z.infer<TParams>, context: ToolContext) => Promise<unknown>
+  /** Human-in-the-loop mode or policy. Defaults to 'auto'. */
+  readonly hitl: HitlMode | HitlPolicy
+  /** Execution mode. Defaults to 'sync'. */
+  readonly mode: ActionMode
+  /** Maximum run time in milliseconds. Enforced by the handler and by Fo. */
+  readonly timeoutMs?: number | undefined
+  /** Call limits. Enforced by the handler and by Fo. */
+  readonly rateLimit?: ActionRateLimit | undefined
+  /** Async actions receive an `AsyncToolContext` at runtime. */
+  readonly execute: (params: z.infer<TParams>, context: ToolContext) => Promise<ActionOutput<TOutput>>
   readonly _brand: 'FoAction'
 }
 
 /**
  * @deprecated Use `FoAction` instead. `FoTool` is kept for backward compatibility.
  */
-export type FoTool<TParams extends z.ZodSchema = z.ZodSchema> = FoAction<TParams>
+export type FoTool<
+  TParams extends z.ZodSchema = z.ZodSchema,
+  TOutput extends z.ZodTypeAny | undefined = z.ZodTypeAny | undefined,
+> = FoAction<TParams, TOutput>
 
 // ─── Schedule Definition (v2) ─────────────────────────────────────────────────
 
@@ -63,7 +315,7 @@ export interface FoSchedule {
   /** Cron expression (e.g. '0 9 * * MON' for every Monday at 9am) */
   readonly cron: string
   /** IANA timezone (e.g. 'America/Los_Angeles'). Defaults to UTC. */
-  readonly timezone?: string
+  readonly timezone?: string | undefined
   /**
    * Prompt describing what the agent should do on each run.
    * The agent has access to all configured tools and the context store.
@@ -82,8 +334,9 @@ export interface FoTrigger<TSchema extends z.ZodSchema = z.ZodSchema> {
    */
   readonly schema: TSchema
   /**
-   * Prompt template. Use `{{fieldName}}` to interpolate event payload fields.
-   * Example: 'New deal "{{dealName}}" worth ${{value}}. Notify the founder.'
+   * Prompt template. Use `{{fieldName}}` to interpolate event payload fields,
+   * with dotted paths and formatters: `{{owner.email}}`, `{{value|currency}}`.
+   * Example: 'New deal "{{dealName}}" worth {{value|currency}}. Notify the founder.'
    */
   readonly prompt: string
   readonly _brand: 'FoTrigger'
@@ -146,12 +399,21 @@ export interface ActionRegistration {
   /**
    * HTTPS URL where Fo calls this action.
    * Must be publicly reachable from Fo's servers.
+   * Defaults to `actions.webhookUrl` when the action is served by a router.
    */
-  webhookUrl: string
+  webhookUrl?: string | undefined
   /**
    * Secret used to sign and verify webhook calls (HMAC-SHA256).
+   * Defaults to `actions.webhookSecret`. While rotating, pass
+   * `[newSecret, oldSecret]` — Fo signs with the first.
    */
-  webhookSecret: string
+  webhookSecret?: WebhookSecret | undefined
+  /**
+   * How Fo signs calls to this action. `'sha256'` (default) uses
+   * `webhookSecret`; `'ed25519'` signs with Fo's private key, so no shared
+   * secret is sent to Fo. Defaults to `actions.signatureScheme`.
+   */
+  signatureScheme?: WebhookSignatureScheme | undefined
 }
 
 export interface ActionsConfig {
@@ -161,6 +423,23 @@ export interface ActionsConfig {
   calendar?: boolean
   /** Browser automation via OpenClaw (default: false) */
   browser?: boolean
+  /**
+   * Shared HTTPS URL for custom actions served by `createActionRouter()`.
+   * Used by every registration that does not set its own `webhookUrl`.
+   */
+  webhookUrl?: string | undefined
+  /**
+   * Shared webhook secret for custom actions served by `createActionRouter()`.
+   * Used by every registration that does not set its own `webhookSecret`.
+   */
+  webhookSecret?: WebhookSecret | undefined
+  /** Default `signatureScheme` for custom actions. Defaults to `'sha256'`. */
+  signatureScheme?: WebhookSignatureScheme | undefined
+  /**
+   * Receive `approval.requested` / `approval.resolved` events for actions
+   * waiting on a human, so your own tools can take part in approval.
+   */
+  approvals?: ApprovalWebhookConfig | undefined
   custom?: ActionRegistration[]
 }
 
@@ -168,9 +447,9 @@ export interface FoAgent {
   agent: AgentIdentity
   /**
    * GitHub repository slug for the agent (e.g. 'acme-corp/atlas-agent').
-   * Used to auto-generate GitHub Actions YAML for schedules and triggers.
+   * Holds the GitHub Actions workflows `fo schedules export` writes for schedules.
    */
-  repo?: string
+  repo?: string | undefined
   actions: ActionsConfig
   schedules?: FoSchedule[]
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -180,7 +459,7 @@ export interface FoAgent {
    * Define ingestion tools or datastore connectors here instead of
    * manually calling fo.context.ingest() from your own pipelines.
    */
-  context?: ContextConfig
+  context?: ContextConfig | undefined
   /**
    * Additional instructions layered on top of Fo's base EA reasoning.
    * Use this for org context, persona, domain-specific rules.
@@ -274,20 +553,31 @@ export type DatastoreType =
   | 's3'
   | 'discord'
 
+/**
+ * A secret Fo reads from the agent's environment by name, e.g.
+ * `{ env: 'NOTION_TOKEN' }`. `fo deploy` sends the name, never the value,
+ * so the variable must be listed in the agent's `env`.
+ */
+export interface EnvReference {
+  env: string
+}
+
 export interface DatastoreConnector {
   /** The type of datastore to connect. */
   type: DatastoreType
   /**
    * Connection string or DSN for the datastore.
-   * Use an env var reference — never hardcode credentials.
+   * In an agent config, pass an env reference — `{ env: 'SNOWFLAKE_DSN' }` —
+   * never the value; `fo deploy` rejects plain strings.
    * Required for: snowflake, postgres, bigquery, s3.
    */
-  connectionString?: string
+  connectionString?: string | EnvReference
   /**
-   * API key for the datastore.
+   * API key for the datastore. An env reference in an agent config, like
+   * `connectionString`.
    * Required for: notion, linear, discord.
    */
-  apiKey?: string
+  apiKey?: string | EnvReference
   /**
    * SQL query or filter expression to scope what Fo reads.
    * Supports `:last_sync` as a placeholder for incremental sync.
@@ -313,9 +603,11 @@ export interface IngestionToolRegistration {
    */
   webhookUrl: string
   /**
-   * Secret used to sign and verify webhook calls (HMAC-SHA256).
+   * Secret used to sign and verify webhook calls (HMAC-SHA256), as an env
+   * reference listed in the agent's `env`: `{ env: 'FO_CONTEXT_SECRET' }`.
+   * Plain strings still type-check but `fo deploy` rejects them.
    */
-  webhookSecret: string
+  webhookSecret: string | EnvReference
   /**
    * Cron expression for how often Fo calls this tool to refresh context.
    * Defaults to hourly ('0 * * * *') if not specified.
@@ -343,9 +635,57 @@ export interface ContextConfig {
 
 // ─── Webhook Types ─────────────────────────────────────────────────────────────
 
+/**
+ * One or more active webhook secrets. During rotation, list the new secret
+ * first and keep the old one until Fo has switched over.
+ */
+export type WebhookSecret = string | readonly string[]
+
+/**
+ * One or more of Fo's Ed25519 public keys, each PEM (SPKI) or the base64 raw
+ * 32-byte key. During key rotation, list the new key first.
+ */
+export type WebhookPublicKey = string | readonly string[]
+
+/**
+ * What `verifyWebhook` checks signatures against. HMAC (`sha256=`) signatures
+ * need `secret`; Ed25519 (`ed25519=`) signatures need `publicKey`.
+ */
+export interface WebhookVerificationKeys {
+  secret?: WebhookSecret | undefined
+  publicKey?: WebhookPublicKey | undefined
+}
+
+/** Signature scheme, as named by the `x-fo-signature` prefix */
+export type WebhookSignatureScheme = 'sha256' | 'ed25519'
+
+/** Returned by `verifyWebhook` so callers know which active key matched. */
+export interface WebhookVerification {
+  scheme: WebhookSignatureScheme
+  /**
+   * Index of the matching entry (0 for a single string) — in the `secret`
+   * list for `sha256`, in the `publicKey` list for `ed25519`
+   */
+  secretIndex: number
+}
+
+/** A JSON value encrypted with `encryptPayload()` (AES-256-GCM, base64 fields) */
+export interface EncryptedPayload {
+  alg: 'A256GCM'
+  /** 96-bit nonce */
+  iv: string
+  /** Ciphertext followed by the GCM auth tag */
+  data: string
+}
+
 export interface WebhookPayload {
   tool: string
   params: Record<string, unknown>
+  /**
+   * Params encrypted with a key derived from the webhook secret. When present,
+   * the handler decrypts them and uses them in place of `params`.
+   */
+  encryptedParams?: EncryptedPayload | undefined
   context: ToolContext
   agentId: string
   requestId: string
@@ -353,6 +693,118 @@ export interface WebhookPayload {
   timestamp: number
 }
 
+/** Describes one action served by `createActionRouter()`. */
+export interface ActionManifestEntry {
+  name: string
+  description: string
+  /** JSON Schema for the action's parameters */
+  parameters: Record<string, unknown>
+  /** JSON Schema for the action's result, when it declares an `output` schema */
+  output?: Record<string, unknown>
+  env: string[]
+  hitl: HitlMode | HitlPolicy
+}
+
+// ─── Action Responses (wire format) ───────────────────────────────────────────
+// What tool handlers send back to Fo. Fo's orchestrator branches on `code`,
+// never on `error` text.
+//
+//   status  code                      meaning
+//   200     —                         ActionSuccessResponse
+//   202     —                         ActionAcceptedResponse (mode: 'async')
+//   400     invalid_request           body could not be read or is not JSON
+//   400     user_facing               UserFacingActionError — `error` is safe to show the end user
+//   401     invalid_signature         webhook verification failed
+//   404     unknown_tool              router has no action with that name
+//   405     method_not_allowed        not a POST
+//   409     duplicate_request         same request id is still in flight
+//   413     payload_too_large         body exceeds the handler's `maxBodyBytes`
+//   415     unsupported_media_type    Content-Type is not application/json
+//   422     invalid_params            params failed the action's Zod schema (`details` = issues)
+//   422     invalid_input             ActionInputError — params were well-formed but unusable
+//   429     rate_limited              over the action's `rateLimit`; see `Retry-After`
+//   499     cancelled                 Fo disconnected before the action finished
+//   500     invalid_output            result failed the action's `output` schema
+//   500     internal_error            any other thrown error
+//   503     retryable                 RetryableActionError — retry after `retryAfter` seconds
+//   503     idempotency_unavailable   the idempotency store could not be reached
+//   504     timeout                   the action ran past its `timeoutMs`
+
+export type ActionErrorCode =
+  | 'invalid_request'
+  | 'user_facing'
+  | 'invalid_signature'
+  | 'unknown_tool'
+  | 'method_not_allowed'
+  | 'duplicate_request'
+  | 'payload_too_large'
+  | 'unsupported_media_type'
+  | 'invalid_params'
+  | 'invalid_input'
+  | 'invalid_output'
+  | 'rate_limited'
+  | 'cancelled'
+  | 'internal_error'
+  | 'retryable'
+  | 'idempotency_unavailable'
+  | 'timeout'
+
+export interface ActionSuccessResponse {
+  success: true
+  result: unknown
+}
+
+export interface ActionAcceptedResponse {
+  success: true
+  status: 'accepted'
+  jobId: string
+}
+
+export interface ActionErrorResponse {
+  success: false
+  /** Human-readable message. Only `user_facing` messages are meant for end users. */
+  error: string
+  code: ActionErrorCode
+  /** Seconds to wait before retrying (`retryable` only; also sent as `Retry-After`) */
+  retryAfter?: number
+  /** Structured detail, e.g. Zod issues for `invalid_params` / `invalid_output` */
+  details?: unknown
+}
+
+export type ActionResponse = ActionSuccessResponse | ActionAcceptedResponse | ActionErrorResponse
+
+// ─── Idempotency ──────────────────────────────────────────────────────────────
+
+/** A handler response as cached by an `IdempotencyStore`. */
+export interface IdempotentResponse {
+  status: number
+  body: unknown
+}
+
+export type IdempotencyRecord =
+  | { state: 'in_flight'; expiresAt: number }
+  | { state: 'completed'; response: IdempotentResponse; expiresAt: number }
+
+/**
+ * Caches action results by request id so a retried webhook delivery returns
+ * the original result instead of re-running `execute`.
+ *
+ * Implementations must make `claim` atomic: of two concurrent claims for the
+ * same key, exactly one may return `null`.
+ */
+export interface IdempotencyStore {
+  /**
+   * Claim `key` for a new execution, for at most `leaseMs`. Returns `null`
+   * when the caller now owns the key, or the live record when a delivery
+   * with this key was already seen.
+   */
+  claim(key: string, leaseMs: number): Promise<IdempotencyRecord | null>
+  /** Store the result of a claimed execution for `ttlMs`. */
+  complete(key: string, response: IdempotentResponse, ttlMs: number): Promise<void>
+  /** Drop a claim without storing a result, so a retry may run again. */
+  release(key: string): Promise<void>
+}
+
 export interface WebhookHeaders {
   'x-fo-signature': string
   'x-fo-timestamp': string
@@ -1,24 +1,67 @@
-import { createHmac, timingSafeEqual } from 'crypto'
+import { createHmac, createPublicKey, timingSafeEqual, verify } from 'crypto'
 import type { IncomingMessage, ServerResponse } from 'http'
-import type { FoTool, WebhookPayload, ToolContext } from './types.js'
+import type { z } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { handleApprovalEvent, type ApprovalHandlers } from './approvals.js'
+import {
+  assertVerificationKeys,
+  decryptParams,
+  DEFAULT_MAX_BODY_BYTES,
+  errorResponse,
+  executeTool,
+  isHandlerResponse,
+  parsePayload,
+  assertAsyncSupport,
+  protectResponse,
+  type ExecuteToolOptions,
+  type HandlerResponse,
+  type VerifiedRequest,
+} from './handler.js'
+import {
+  decodePublicKey,
+  ED25519_SPKI_PREFIX,
+  getHeader,
+  parseSignature,
+  readSignatureHeaders,
+  replySecret,
+  requireKeys,
+  resolveKeys,
+  WebhookVerificationError,
+} from './signature.js'
+import { NOOP_TRACE, startRequestTrace, type RequestTrace } from './tracing.js'
+import {
+  assertTriggerEndpointOptions,
+  handleTriggerWebhook,
+  type TriggerEndpointOptions,
+} from './triggerEndpoint.js'
+import type {
+  ActionManifestEntry,
+  FoAction,
+  FoTool,
+  FoTrigger,
+  WebhookPayload,
+  WebhookPublicKey,
+  WebhookSecret,
+  WebhookVerification,
+  WebhookVerificationKeys,
+} from './types.js'
 
-// Webhook calls older than this are rejected to prevent replay attacks
-const TIMESTAMP_TOLERANCE_MS = 5 * 60 * 1000 // 5 minutes
-
-export class WebhookVerificationError extends Error {
-  constructor(message: string) {
-    super(message)
-    this.name = 'WebhookVerificationError'
-  }
-}
+export { WebhookVerificationError }
 
 /**
  * Verify a webhook call came from Fo.
  *
+ * Uses `node:crypto`. On runtimes without it (edge, Workers), use
+ * `verifyWebhookAsync`, which takes the Web Crypto (`crypto.subtle`) path.
+ *
  * @param body    Raw request body string (before JSON.parse)
  * @param headers Object containing x-fo-signature, x-fo-timestamp
- * @param secret  Your webhook secret (from FO_WEBHOOK_SECRET env var)
+ * @param secret  Your webhook secret (from FO_WEBHOOK_SECRET env var), or a list
+ *                of active secrets while rotating — any match is accepted.
+ *                Pass `{ secret?, publicKey? }` to also accept Ed25519
+ *                (`ed25519=`) signatures checked against Fo's public key.
  *
+ * @returns the signature scheme and which of the active keys matched
  * @throws {WebhookVerificationError} if signature is invalid or timestamp is stale
  *
  * @example
@@ -28,59 +71,80 @@ export class WebhookVerificationError extends Error {
  *   verifyWebhook(req.body, req.headers, process.env.FO_WEBHOOK_SECRET!)
  *   // safe to process...
  * })
+ *
+ * // Ed25519 — no shared secret to leak
+ * verifyWebhook(body, headers, { publicKey: process.env.FO_WEBHOOK_PUBLIC_KEY! })
  * ```
  */
 export function verifyWebhook(
   body: string,
   headers: Record<string, string | string[] | undefined>,
-  secret: string
-): void {
-  const signature = getHeader(headers, 'x-fo-signature')
-  const timestamp = getHeader(headers, 'x-fo-timestamp')
+  secret: WebhookSecret | WebhookVerificationKeys
+): WebhookVerification {
+  const { secrets, publicKeys } = resolveKeys(secret)
+  const { signature, timestamp } = readSignatureHeaders(headers)
+  const payload = `${timestamp}.${body}`
 
-  if (!signature) {
-    throw new WebhookVerificationError('Missing x-fo-signature header')
+  if (signature.startsWith('ed25519=')) {
+    return verifyEd25519(payload, signature, requireKeys(publicKeys, 'ed25519'))
   }
 
-  if (!timestamp) {
-    throw new WebhookVerificationError('Missing x-fo-timestamp header')
-  }
+  // Compute expected signature: sha256=HMAC(timestamp.body, secret)
+  const received = Buffer.from(signature, 'utf8')
 
-  // Reject stale requests (replay attack protection)
-  const ts = parseInt(timestamp, 10)
-  if (isNaN(ts)) {
-    throw new WebhookVerificationError('Invalid x-fo-timestamp header')
-  }
+  for (const [secretIndex, candidate] of requireKeys(secrets, 'sha256').entries()) {
+    const expectedHex = createHmac('sha256', candidate).update(payload).digest('hex')
+    const expected = Buffer.from(`sha256=${expectedHex}`, 'utf8')
 
-  const ageMs = Date.now() - ts * 1000
-  if (ageMs > TIMESTAMP_TOLERANCE_MS || ageMs < -60_000) {
-    throw new WebhookVerificationError(
-      `Webhook timestamp is too old or too far in the future. ` +
-      `Check that your server clock is synchronized.`
-    )
+    // Timing-safe comparison to prevent timing attacks
+    if (
+      expected.length === received.length &&
+      timingSafeEqual(expected, received)
+    ) {
+      return { scheme: 'sha256', secretIndex }
+    }
   }
 
-  // Compute expected signature: sha256=HMAC(timestamp.body, secret)
-  const payload = `${timestamp}.${body}`
-  const expectedHex = createHmac('sha256', secret).update(payload).digest('hex')
-  const expected = Buffer.from(`sha256=${expectedHex}`, 'utf8')
-  const received = Buffer.from(signature, 'utf8')
+  throw new WebhookVerificationError('Invalid webhook signature')
+}
 
-  // Timing-safe comparison to prevent timing attacks
-  if (
-    expected.length !== received.length ||
-    !timingSafeEqual(expected, received)
-  ) {
-    throw new WebhookVerificationError('Invalid webhook signature')
+function verifyEd25519(payload: string, signature: string, publicKeys: string[]): WebhookVerification {
+  const { bytes: received } = parseSignature(signature)
+
+  for (const [secretIndex, candidate] of publicKeys.entries()) {
+    const { format, bytes } = decodePublicKey(candidate)
+    let key
+    try {
+      const der = format === 'spki' ? Buffer.from(bytes) : Buffer.concat([ED25519_SPKI_PREFIX, bytes])
+      key = createPublicKey({ key: der, format: 'der', type: 'spki' })
+    } catch {
+      throw new WebhookVerificationError('Invalid Ed25519 public key')
+    }
+    if (key.asymmetricKeyType === 'ed25519' && verify(null, Buffer.from(payload, 'utf8'), key, received)) {
+      return { scheme: 'ed25519', secretIndex }
+    }
   }
+
+  throw new WebhookVerificationError('Invalid webhook signature')
 }
 
-interface CreateToolHandlerOptions {
+interface CreateToolHandlerOptions extends Omit<ExecuteToolOptions, 'env'> {
   /**
    * Your webhook secret. Use process.env.FO_WEBHOOK_SECRET.
    * Must match the secret registered in fo.config.ts.
+   * Pass `[newSecret, oldSecret]` while rotating — either is accepted.
+   */
+  secret?: WebhookSecret | undefined
+  /**
+   * Fo's Ed25519 public key, for actions registered with
+   * `signatureScheme: 'ed25519'`. Set this, `secret`, or both.
+   */
+  publicKey?: WebhookPublicKey | undefined
+  /**
+   * Largest request body accepted, in bytes. Larger bodies are rejected with
+   * a 413 without being buffered. Defaults to 1 MiB.
    */
-  secret: string
+  maxBodyBytes?: number | undefined
 }
 
 type NodeHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>
@@ -111,93 +175,354 @@ export function createToolHandler<TParams extends import('zod').ZodSchema>(
   tool: FoTool<TParams>,
   options: CreateToolHandlerOptions
 ): NodeHandler {
+  assertVerificationKeys(options)
+  assertAsyncSupport([tool], options.client)
+
   return async (req, res) => {
-    if (req.method !== 'POST') {
-      sendJson(res, 405, { error: 'Method not allowed' })
-      return
-    }
+    const startedAt = Date.now()
+    const trace = await startRequestTrace(options.tracer, getHeader(req.headers, 'traceparent'))
+    const request = await readVerifiedRequest(req, options, trace)
+    const response = isHandlerResponse(request)
+      ? request
+      : await executeTool(tool, request.payload, options, { signal: disconnectSignal(res), trace })
 
-    // Read raw body — needed for signature verification
-    let rawBody: string
-    try {
-      rawBody = await readBody(req)
-    } catch {
-      sendJson(res, 400, { error: 'Failed to read request body' })
-      return
+    trace.end(response)
+    options.metrics?.record(tool.name, response, Date.now() - startedAt)
+    sendResponse(res, isHandlerResponse(request) ? response : await protectResponse(response, options.responses, request))
+  }
+}
+
+/**
+ * A Node handler that serves several actions from one route, plus the
+ * manifest of the actions it dispatches to.
+ */
+export interface ActionRouter extends NodeHandler {
+  readonly manifest: ActionManifestEntry[]
+}
+
+/**
+ * Create a single handler that serves many Fo actions from one endpoint.
+ * Each call is verified once and dispatched on `WebhookPayload.tool`.
+ * Unknown tools get a 404 JSON response.
+ *
+ * Register the router's URL as `actions.webhookUrl` in `defineAgent()` so
+ * every custom action shares it.
+ *
+ * @example
+ * ```ts
+ * import { createActionRouter } from '@fo/sdk'
+ * import { createDeal, queryCrm } from './actions/crm.js'
+ *
+ * const router = createActionRouter([createDeal, queryCrm], {
+ *   secret: process.env.FO_WEBHOOK_SECRET!,
+ * })
+ *
+ * app.post('/fo/actions', router)
+ * console.log(router.manifest.map((a) => a.name))
+ * ```
+ */
+export function createActionRouter(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  actions: FoAction<any>[],
+  options: CreateToolHandlerOptions
+): ActionRouter {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const byName = new Map<string, FoAction<any>>()
+  for (const action of actions) {
+    if (action._brand !== 'FoAction') {
+      throw new Error('createActionRouter: each action must be created with defineAction().')
     }
+    if (byName.has(action.name)) {
+      throw new Error(`createActionRouter: duplicate action name "${action.name}".`)
+    }
+    byName.set(action.name, action)
+  }
+  assertVerificationKeys(options)
+  assertAsyncSupport(actions, options.client)
 
-    // Verify the call came from Fo
-    try {
-      verifyWebhook(rawBody, req.headers as Record<string, string>, options.secret)
-    } catch (err) {
-      if (err instanceof WebhookVerificationError) {
-        sendJson(res, 401, { error: err.message })
-        return
-      }
-      throw err
+  const manifest: ActionManifestEntry[] = actions.map((action) => ({
+    name: action.name,
+    description: action.description,
+    parameters: zodToJsonSchema(action.parameters, { target: 'jsonSchema7' }) as Record<string, unknown>,
+    ...(action.output
+      ? { output: zodToJsonSchema(action.output, { target: 'jsonSchema7' }) as Record<string, unknown> }
+      : {}),
+    env: [...action.env],
+    hitl: action.hitl,
+  }))
+
+  // Resolves with the verified request and the action it was dispatched to, when there were any
+  const dispatch = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    trace: RequestTrace
+  ): Promise<{ response: HandlerResponse; request?: VerifiedRequest; action?: string }> => {
+    const request = await readVerifiedRequest(req, options, trace)
+    if (isHandlerResponse(request)) return { response: request }
+
+    const { payload } = request
+    const action = byName.get(payload.tool)
+    if (!action) {
+      const response = errorResponse(404, 'unknown_tool', `Unknown tool "${payload.tool}"`)
+      return { response: { status: response.status, body: { ...response.body, tools: [...byName.keys()] } }, request }
     }
 
-    // Parse payload
-    let payload: WebhookPayload
-    try {
-      payload = JSON.parse(rawBody) as WebhookPayload
-    } catch {
-      sendJson(res, 400, { error: 'Invalid JSON body' })
+    const response = await executeTool(action, payload, options, { signal: disconnectSignal(res), trace })
+    return { response, request, action: action.name }
+  }
+
+  const handler: NodeHandler = async (req, res) => {
+    const startedAt = Date.now()
+    const trace = await startRequestTrace(options.tracer, getHeader(req.headers, 'traceparent'))
+    const { response, request, action } = await dispatch(req, res, trace)
+    trace.end(response)
+    options.metrics?.record(action, response, Date.now() - startedAt)
+    sendResponse(res, request ? await protectResponse(response, options.responses, request) : response)
+  }
+
+  return Object.assign(handler, { manifest })
+}
+
+type CreateApprovalHandlerOptions = Pick<CreateToolHandlerOptions, 'secret' | 'publicKey' | 'maxBodyBytes'>
+
+/**
+ * Create a handler for the approval events Fo sends to
+ * `actions.approvals.webhookUrl`. Events are verified like action calls.
+ * Decide on a pending approval with `FoClient.approvals.approve/deny` —
+ * from the handler or later, e.g. when someone clicks a Slack button.
+ *
+ * @example
+ * ```ts
+ * import { createApprovalHandler, FoClient } from '@fo/sdk'
+ *
+ * const fo = new FoClient({ apiKey: process.env.FO_API_KEY! })
+ *
+ * app.post('/fo/approvals', createApprovalHandler({
+ *   onRequested: async (approval) => {
+ *     await slack.postApprovalCard(approval) // buttons call fo.approvals.approve/deny
+ *   },
+ *   onResolved: async (approval) => {
+ *     await slack.updateApprovalCard(approval.id, approval.resolution)
+ *   },
+ * }, { secret: process.env.FO_APPROVALS_SECRET! }))
+ * ```
+ */
+export function createApprovalHandler(
+  handlers: ApprovalHandlers,
+  options: CreateApprovalHandlerOptions
+): NodeHandler {
+  assertVerificationKeys(options)
+
+  return async (req, res) => {
+    const verified = await readVerifiedBody(req, options, NOOP_TRACE)
+    sendResponse(res, isHandlerResponse(verified) ? verified : await handleApprovalEvent(verified.rawBody, handlers))
+  }
+}
+
+/**
+ * Create a handler that turns a third-party webhook into a trigger: it
+ * verifies the provider's signature, maps the body onto the trigger's
+ * schema, and fires the trigger through `FoClient.triggers.fire`.
+ *
+ * Mount it before any JSON body parser — signatures cover the raw body.
+ *
+ * @example
+ * ```ts
+ * import { createTriggerEndpoint, stripeVerifier, FoClient } from '@fo/sdk'
+ *
+ * app.post('/webhooks/stripe', createTriggerEndpoint(paymentFailed, {
+ *   client: new FoClient({ apiKey: process.env.FO_API_KEY! }),
+ *   agentEmail: 'atlas',
+ *   verify: stripeVerifier(process.env.STRIPE_WEBHOOK_SECRET!),
+ *   map: (event: any) => event.type === 'invoice.payment_failed'
+ *     ? { customer: event.data.object.customer_email, amount: event.data.object.amount_due / 100 }
+ *     : null,
+ * }))
+ * ```
+ */
+export function createTriggerEndpoint<TSchema extends z.ZodTypeAny>(
+  trigger: FoTrigger<TSchema>,
+  options: TriggerEndpointOptions<TSchema>
+): NodeHandler {
+  assertTriggerEndpointOptions(options)
+
+  return async (req, res) => {
+    if (req.method !== 'POST') {
+      sendResponse(res, errorResponse(405, 'method_not_allowed', 'Method not allowed'))
       return
     }
 
-    // Validate parameters against tool schema
-    const parsed = tool.parameters.safeParse(payload.params)
-    if (!parsed.success) {
-      sendJson(res, 422, {
-        error: 'Invalid tool parameters',
-        details: parsed.error.issues,
-      })
+    const rawBody = await readRawBody(req, options.maxBodyBytes)
+    if (typeof rawBody !== 'string') {
+      sendResponse(res, rawBody)
       return
     }
 
-    // Inject declared env vars — only what the tool declared it needs
-    const env: Record<string, string> = {}
-    for (const key of tool.env) {
-      const val = process.env[key]
-      if (val !== undefined) env[key] = val
-    }
+    const request = { method: req.method, url: requestUrl(req), headers: req.headers, rawBody }
+    sendResponse(res, await handleTriggerWebhook(trigger, request, options))
+  }
+}
+
+/** The URL a request was made to, honouring a proxy's x-forwarded-proto. */
+function requestUrl(req: IncomingMessage): string {
+  const forwarded = getHeader(req.headers, 'x-forwarded-proto')?.split(',')[0]?.trim()
+  const protocol = forwarded ?? ('encrypted' in req.socket && req.socket.encrypted ? 'https' : 'http')
+  return `${protocol}://${getHeader(req.headers, 'host') ?? 'localhost'}${req.url ?? '/'}`
+}
+
+/**
+ * Read, verify, parse and decrypt a webhook request. Returns the error
+ * response to send when the request should not be processed further.
+ */
+async function readVerifiedRequest(
+  req: IncomingMessage,
+  options: Pick<CreateToolHandlerOptions, 'secret' | 'publicKey' | 'maxBodyBytes'>,
+  trace: RequestTrace
+): Promise<VerifiedRequest | HandlerResponse> {
+  const verified = await readVerifiedBody(req, options, trace)
+  if (isHandlerResponse(verified)) return verified
+
+  // Parse payload
+  const payload = parsePayload(verified.rawBody, getHeader(req.headers, 'x-fo-request-id'))
+  if (isHandlerResponse(payload)) return payload
+  return decryptParams({ payload, secret: verified.secret })
+}
+
+/**
+ * Read and verify a signed JSON request body, returning it with the secret
+ * to answer with, or the error response to send.
+ */
+async function readVerifiedBody(
+  req: IncomingMessage,
+  options: Pick<CreateToolHandlerOptions, 'secret' | 'publicKey' | 'maxBodyBytes'>,
+  trace: RequestTrace
+): Promise<{ rawBody: string; secret: string | undefined } | HandlerResponse> {
+  if (req.method !== 'POST') {
+    return errorResponse(405, 'method_not_allowed', 'Method not allowed')
+  }
+
+  // Fo always sends JSON — refuse anything else before reading it
+  const contentType = getHeader(req.headers, 'content-type')?.split(';')[0]?.trim().toLowerCase()
+  if (contentType !== 'application/json') {
+    return errorResponse(415, 'unsupported_media_type', 'Content-Type must be application/json')
+  }
 
-    const context: ToolContext = {
-      ...payload.context,
-      env,
-      log: (msg) => console.log(`[fo:tool:${tool.name}] [${payload.requestId}] ${msg}`),
+  // Read raw body — needed for signature verification
+  const rawBody = await readRawBody(req, options.maxBodyBytes)
+  if (typeof rawBody !== 'string') return rawBody
+
+  // Verify the call came from Fo
+  const keys = { secret: options.secret, publicKey: options.publicKey }
+  let secret: string | undefined
+  try {
+    const verification = await trace.step('fo.verify', () =>
+      verifyWebhook(rawBody, req.headers as Record<string, string>, keys)
+    )
+    secret = replySecret(keys, verification)
+  } catch (err) {
+    if (err instanceof WebhookVerificationError) {
+      return errorResponse(401, 'invalid_signature', err.message)
     }
+    throw err
+  }
 
-    try {
-      const result = await tool.execute(parsed.data, context)
-      sendJson(res, 200, { success: true, result })
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Tool execution failed'
-      console.error(`[fo:tool:${tool.name}] [${payload.requestId}] Error:`, err)
-      sendJson(res, 500, { success: false, error: message })
+  return { rawBody, secret }
+}
+
+/** Read the raw body, or return the error response to send. */
+async function readRawBody(req: IncomingMessage, maxBodyBytes: number | undefined): Promise<string | HandlerResponse> {
+  try {
+    return await readBody(req, maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES)
+  } catch (err) {
+    if (err instanceof BodyReadError) {
+      const response = errorResponse(err.status, err.code, err.message)
+      // Don't keep reading an oversized upload on this connection
+      return err.status === 413 ? { ...response, headers: { Connection: 'close' } } : response
     }
+    return errorResponse(400, 'invalid_request', 'Failed to read request body')
+  }
+}
+
+/** Aborts if the connection closes before the response is written. */
+function disconnectSignal(res: ServerResponse): AbortSignal {
+  const controller = new AbortController()
+  res.once('close', () => {
+    if (!res.writableEnded) controller.abort()
+  })
+  return controller.signal
+}
+
+class BodyReadError extends Error {
+  constructor(
+    readonly status: 400 | 413,
+    readonly code: 'invalid_request' | 'payload_too_large',
+    message: string
+  ) {
+    super(message)
+    this.name = 'BodyReadError'
   }
 }
 
-function readBody(req: IncomingMessage): Promise<string> {
+/** Body fields set by frameworks that buffer the request before our handler runs */
+type PreparsedRequest = IncomingMessage & { rawBody?: unknown; body?: unknown }
+
+/**
+ * Read the raw request body, stopping as soon as it exceeds `maxBytes`.
+ * Reuses a body that Express/Next already buffered (`req.rawBody`, or a
+ * `Buffer`/string `req.body`), since the stream is consumed by then.
+ */
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  const tooLarge = () => new BodyReadError(413, 'payload_too_large', `Request body exceeds ${maxBytes} bytes`)
+
+  const { rawBody, body } = req as PreparsedRequest
+  const buffered = [rawBody, body].find((b) => Buffer.isBuffer(b) || typeof b === 'string') as Buffer | string | undefined
+  if (buffered !== undefined) {
+    if (Buffer.byteLength(buffered) > maxBytes) return Promise.reject(tooLarge())
+    return Promise.resolve(buffered.toString())
+  }
+  if (body !== undefined || req.readableEnded) {
+    return Promise.reject(new BodyReadError(
+      400,
+      'invalid_request',
+      'Request body was already parsed. Mount the Fo handler before JSON body parsers, or use express.raw().'
+    ))
+  }
+
+  const declared = Number(getHeader(req.headers, 'content-length'))
+  if (declared > maxBytes) return Promise.reject(tooLarge())
+
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = []
-    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    let received = 0
+
+    const onData = (chunk: Buffer) => {
+      received += chunk.length
+      if (received > maxBytes) {
+        // Stop buffering; drain the rest so the 413 can still be written
+        req.off('data', onData)
+        req.resume()
+        reject(tooLarge())
+        return
+      }
+      chunks.push(chunk)
+    }
+
+    req.on('data', onData)
     req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
     req.on('error', reject)
   })
 }
 
-function getHeader(
-  headers: Record<string, string | string[] | undefined>,
-  name: string
-): string | undefined {
-  const val = headers[name]
-  return Array.isArray(val) ? val[0] : val
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
 }
 
-function sendJson(res: ServerResponse, status: number, body: unknown): void {
-  res.writeHead(status, { 'Content-Type': 'application/json' })
-  res.end(JSON.stringify(body))
+function sendResponse(res: ServerResponse, response: HandlerResponse): void {
+  sendJson(res, response.status, response.body, response.headers)
 }
@@ -0,0 +1,23 @@
+import { z } from 'zod'
+import { defineAction } from '../../src/defineAction.js'
+import { defineAgent } from '../../src/defineAgent.js'
+
+const echo = defineAction({
+  name: 'echo',
+  description: 'Echoes the input back',
+  parameters: z.object({ value: z.string() }),
+  execute: async ({ value }) => ({ value }),
+})
+
+export default defineAgent({
+  agent: { name: 'Fixture', email: 'fixture' },
+  actions: {
+    custom: [
+      {
+        action: echo,
+        webhookUrl: 'https://example.com/actions/echo',
+        webhookSecret: 'fixture-secret',
+      },
+    ],
+  },
+})
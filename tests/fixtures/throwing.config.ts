@@ -0,0 +1,5 @@
+import { defineAgent } from '../../src/defineAgent.js'
+
+export default defineAgent({
+  agent: { name: 'Fixture', email: 'fo' },
+})
@@ -1,15 +1,70 @@
 import { test, describe } from 'node:test'
 import assert from 'node:assert/strict'
-import { createHmac } from 'node:crypto'
+import { createHmac, generateKeyPairSync } from 'node:crypto'
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { ActionJobUpdate, ApprovalEvent, ApprovalRequest, DatastoreConnector, EncryptedPayload, LogEntry } from '../src/types.js'
+import { fileURLToPath } from 'node:url'
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import { z } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
 import { defineAction as defineTool } from '../src/defineAction.js'
 import { defineConfig } from '../src/defineConfig.js'
-import { verifyWebhook, WebhookVerificationError } from '../src/webhook.js'
+import { defineAgent } from '../src/defineAgent.js'
+import { defineSchedule } from '../src/defineSchedule.js'
+import {
+  verifyWebhook,
+  createToolHandler,
+  createActionRouter,
+  createApprovalHandler,
+  createTriggerEndpoint,
+  WebhookVerificationError,
+} from '../src/webhook.js'
+import { createFetchToolHandler, createFetchTriggerEndpoint, verifyWebhookAsync, verifyWebhookResponse } from '../src/fetch.js'
+import { githubVerifier, hmacVerifier, hubspotVerifier, stripeVerifier } from '../src/triggerEndpoint.js'
+import { encryptPayload, decryptPayload, PayloadDecryptionError } from '../src/encryption.js'
+import { MemoryIdempotencyStore } from '../src/idempotency.js'
+import { createMetricsRegistry } from '../src/metrics.js'
+import { evaluateHitl } from '../src/hitl.js'
+import { nextRuns, parseCron } from '../src/cron.js'
+import { defineTrigger } from '../src/defineTrigger.js'
+import { renderTriggerPrompt } from '../src/promptTemplate.js'
+import {
+  RetryableActionError,
+  UserFacingActionError,
+  ActionInputError,
+  ActionTimeoutError,
+  ActionCancelledError,
+} from '../src/errors.js'
+import { FileIdempotencyStore } from '../src/fileIdempotencyStore.js'
 import {
   createMockToolContext,
   signWebhookPayload,
   createMockWebhookRequest,
 } from '../src/testing.js'
+import { loadConfig, normalizeConfig, ConfigLoadError } from '../cli/utils/config.js'
+import { describeJsonSchema } from '../cli/utils/schema.js'
+import { serializeContext } from '../cli/utils/context.js'
+import { detectWorkflowDrift, renderScheduleWorkflow, scheduleWorkflowPath, toUtcSchedule } from '../cli/utils/workflows.js'
+import { FoClient, TriggerPayloadError } from '../src/client.js'
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base'
+
+// Serve a Node handler on an ephemeral port for the duration of `fn`
+async function withServer(
+  handler: (req: IncomingMessage, res: ServerResponse) => Promise<void>,
+  fn: (url: string) => Promise<void>
+): Promise<void> {
+  const server = createServer((req, res) => void handler(req, res))
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  try {
+    await fn(`http://127.0.0.1:${port}`)
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()))
+  }
+}
 
 // ─── defineTool ───────────────────────────────────────────────────────────────
 
@@ -186,6 +241,24 @@ describe('verifyWebhook', () => {
     )
   })
 
+  test('accepts any active secret and reports which one matched', () => {
+    const body = JSON.stringify({ tool: 'my_tool', params: {} })
+    const { signature, timestamp } = signWebhookPayload(body, 'old-secret')
+    const headers = { 'x-fo-signature': signature, 'x-fo-timestamp': timestamp }
+
+    assert.deepEqual(verifyWebhook(body, headers, ['new-secret', 'old-secret']), { scheme: 'sha256', secretIndex: 1 })
+    assert.throws(() => verifyWebhook(body, headers, ['new-secret']), WebhookVerificationError)
+  })
+
+  test('rejects an empty secret list', () => {
+    const body = '{}'
+    const { signature, timestamp } = signWebhookPayload(body, SECRET)
+    assert.throws(
+      () => verifyWebhook(body, { 'x-fo-signature': signature, 'x-fo-timestamp': timestamp }, []),
+      /No webhook secret/
+    )
+  })
+
   test('rejects missing headers', () => {
     const body = '{}'
     assert.throws(
@@ -239,3 +312,1826 @@ describe('createMockWebhookRequest', () => {
     assert.doesNotThrow(() => verifyWebhook(body, headers, SECRET))
   })
 })
+
+// ─── loadConfig ───────────────────────────────────────────────────────────────
+
+describe('loadConfig', () => {
+  const fixture = (name: string) => fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url))
+
+  test('keeps live Zod schemas and execute functions from a TypeScript config', async () => {
+    const config = await loadConfig(fixture('fo.config.ts'))
+    const norm = normalizeConfig(config)
+    const [echo] = norm.customItems
+
+    assert.ok(echo)
+    assert.equal(typeof echo.execute, 'function')
+    assert.equal(echo.parameters.safeParse({ value: 'hi' }).success, true)
+    assert.deepEqual(await echo.execute({ value: 'hi' }, createMockToolContext()), { value: 'hi' })
+  })
+
+  test('reports the config file and line when the config throws', async () => {
+    await assert.rejects(
+      () => loadConfig(fixture('throwing.config.ts')),
+      (err: unknown) => {
+        assert.ok(err instanceof ConfigLoadError)
+        assert.match(err.message, /throwing\.config\.ts:3:\d+/)
+        assert.match(err.message, /reserved/)
+        assert.equal(err.location?.line, 3)
+        return true
+      }
+    )
+  })
+})
+
+// ─── createActionRouter ───────────────────────────────────────────────────────
+
+describe('createActionRouter', () => {
+  const SECRET = 'router-secret'
+  const greet = defineTool({
+    name: 'greet',
+    description: 'Greets someone',
+    parameters: z.object({ name: z.string() }),
+    execute: async ({ name }) => `hello ${name}`,
+  })
+  const add = defineTool({
+    name: 'add',
+    description: 'Adds two numbers',
+    parameters: z.object({ a: z.number(), b: z.number() }),
+    hitl: 'never',
+    execute: async ({ a, b }) => a + b,
+  })
+
+  test('dispatches on the payload tool name', async () => {
+    const router = createActionRouter([greet, add], { secret: SECRET })
+    await withServer(router, async (url) => {
+      const { body, headers } = createMockWebhookRequest('add', { a: 2, b: 3 }, SECRET)
+      const res = await fetch(url, { method: 'POST', body, headers })
+      assert.equal(res.status, 200)
+      assert.deepEqual(await res.json(), { success: true, result: 5 })
+    })
+  })
+
+  test('returns 404 JSON for unknown tools', async () => {
+    const router = createActionRouter([greet, add], { secret: SECRET })
+    await withServer(router, async (url) => {
+      const { body, headers } = createMockWebhookRequest('delete_everything', {}, SECRET)
+      const res = await fetch(url, { method: 'POST', body, headers })
+      assert.equal(res.status, 404)
+      const json = await res.json() as { error: string; tools: string[] }
+      assert.match(json.error, /delete_everything/)
+      assert.deepEqual(json.tools, ['greet', 'add'])
+    })
+  })
+
+  test('exposes a manifest of served actions', () => {
+    const router = createActionRouter([greet, add], { secret: SECRET })
+    assert.deepEqual(router.manifest.map((a) => [a.name, a.hitl]), [['greet', 'auto'], ['add', 'never']])
+    assert.equal(router.manifest[0]?.parameters['type'], 'object')
+  })
+
+  test('rejects duplicate action names', () => {
+    assert.throws(() => createActionRouter([greet, greet], { secret: SECRET }), /duplicate/i)
+  })
+
+  test('defineAgent applies the shared router webhookUrl and secret', () => {
+    const agent = defineAgent({
+      agent: { name: 'Atlas', email: 'atlas' },
+      actions: {
+        webhookUrl: 'https://my-app.com/fo/actions',
+        webhookSecret: SECRET,
+        custom: [{ action: greet }, { action: add, webhookUrl: 'https://my-app.com/add' }],
+      },
+    })
+
+    assert.deepEqual(
+      agent.actions.custom?.map((r) => [r.webhookUrl, r.webhookSecret]),
+      [['https://my-app.com/fo/actions', SECRET], ['https://my-app.com/add', SECRET]]
+    )
+  })
+})
+
+// ─── createFetchToolHandler ───────────────────────────────────────────────────
+
+describe('createFetchToolHandler', () => {
+  const SECRET = 'fetch-secret'
+  const lookup = defineTool({
+    name: 'lookup',
+    description: 'Looks something up',
+    parameters: z.object({ id: z.string() }),
+    env: ['LOOKUP_TOKEN'],
+    execute: async ({ id }, { env }) => ({ id, token: env['LOOKUP_TOKEN'] }),
+  })
+
+  function signedRequest(toolName: string, params: Record<string, unknown>, secret = SECRET): Request {
+    const { body, headers } = createMockWebhookRequest(toolName, params, secret)
+    return new Request('https://example.com/actions/lookup', { method: 'POST', body, headers })
+  }
+
+  test('runs the tool and injects env from the provided source', async () => {
+    const handler = createFetchToolHandler(lookup, { secret: SECRET, env: { LOOKUP_TOKEN: 'tok' } })
+    const res = await handler(signedRequest('lookup', { id: 'a1' }))
+    assert.equal(res.status, 200)
+    assert.deepEqual(await res.json(), { success: true, result: { id: 'a1', token: 'tok' } })
+  })
+
+  test('rejects bad signatures with 401', async () => {
+    const handler = createFetchToolHandler(lookup, { secret: SECRET })
+    const res = await handler(signedRequest('lookup', { id: 'a1' }, 'wrong-secret'))
+    assert.equal(res.status, 401)
+  })
+
+  test('rejects invalid params with 422', async () => {
+    const handler = createFetchToolHandler(lookup, { secret: SECRET })
+    const res = await handler(signedRequest('lookup', { id: 42 }))
+    assert.equal(res.status, 422)
+  })
+
+  test('verifyWebhookAsync accepts Headers instances and rejects tampering', async () => {
+    const { body, headers } = createMockWebhookRequest('lookup', { id: 'a1' }, SECRET)
+    assert.deepEqual(await verifyWebhookAsync(body, new Headers(headers), ['next', SECRET]), { scheme: 'sha256', secretIndex: 1 })
+    await assert.rejects(
+      () => verifyWebhookAsync(body.replace('a1', 'b2'), new Headers(headers), SECRET),
+      WebhookVerificationError
+    )
+  })
+})
+
+// ─── Idempotency ──────────────────────────────────────────────────────────────
+
+describe('idempotency', () => {
+  const SECRET = 'idempotency-secret'
+
+  function counterAction(delayMs = 0) {
+    let calls = 0
+    const action = defineTool({
+      name: 'create_deal',
+      description: 'Creates a deal',
+      parameters: z.object({ name: z.string() }),
+      execute: async ({ name }) => {
+        calls++
+        await new Promise((resolve) => setTimeout(resolve, delayMs))
+        return { id: `deal_${calls}`, name }
+      },
+    })
+    return { action, calls: () => calls }
+  }
+
+  function signedRequest(): Request {
+    const { body, headers } = createMockWebhookRequest('create_deal', { name: 'Acme' }, SECRET)
+    return new Request('https://example.com/actions/create_deal', { method: 'POST', body, headers })
+  }
+
+  test('replays the original result for a duplicate delivery', async () => {
+    const { action, calls } = counterAction()
+    const handler = createFetchToolHandler(action, {
+      secret: SECRET,
+      idempotency: { store: new MemoryIdempotencyStore() },
+    })
+
+    const first = await handler(signedRequest())
+    const second = await handler(signedRequest())
+
+    assert.equal(calls(), 1)
+    assert.deepEqual(await second.json(), await first.json())
+    assert.equal(second.headers.get('x-fo-idempotent-replay'), 'true')
+  })
+
+  test('blocks a concurrent duplicate while the first is in flight', async () => {
+    const { action, calls } = counterAction(20)
+    const handler = createFetchToolHandler(action, {
+      secret: SECRET,
+      idempotency: { store: new MemoryIdempotencyStore() },
+    })
+
+    const [first, second] = await Promise.all([handler(signedRequest()), handler(signedRequest())])
+
+    assert.equal(calls(), 1)
+    assert.deepEqual([first.status, second.status].sort(), [200, 409])
+  })
+
+  test('holds an in-flight claim for the lease, not the result TTL', async () => {
+    const { action } = counterAction()
+    const leaseFor = async (tool: typeof action, idempotency: { leaseMs?: number } = {}) => {
+      const leases: number[] = []
+      const store = new MemoryIdempotencyStore()
+      const claim = store.claim.bind(store)
+      store.claim = (key, leaseMs) => (leases.push(leaseMs), claim(key, leaseMs))
+      await createFetchToolHandler(tool, { secret: SECRET, idempotency: { store, ...idempotency } })(signedRequest())
+      return leases
+    }
+
+    assert.deepEqual(await leaseFor(action), [5 * 60_000])
+    assert.deepEqual(await leaseFor({ ...action, timeoutMs: 10_000 }), [70_000])
+    assert.deepEqual(await leaseFor(action, { leaseMs: 30_000 }), [30_000])
+  })
+
+  test('FileIdempotencyStore claims once and replays completed results', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'fo-idempotency-'))
+    try {
+      const store = new FileIdempotencyStore(dir)
+      assert.equal(await store.claim('create_deal:req_1', 60_000), null)
+      assert.equal((await store.claim('create_deal:req_1', 60_000))?.state, 'in_flight')
+
+      await store.complete('create_deal:req_1', { status: 200, body: { ok: true } }, 60_000)
+      const record = await new FileIdempotencyStore(dir).claim('create_deal:req_1', 60_000)
+      assert.deepEqual(record?.state === 'completed' && record.response, { status: 200, body: { ok: true } })
+
+      assert.equal(await store.claim('create_deal:req_2', 60_000), null)
+      await store.release('create_deal:req_2')
+      assert.equal(await store.claim('create_deal:req_2', 60_000), null)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('FileIdempotencyStore recovers from unreadable and expired records', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'fo-idempotency-'))
+    try {
+      const store = new FileIdempotencyStore(dir)
+      await store.claim('k', 60_000)
+      const [file] = (await readdir(dir)).filter((f) => f.endsWith('.json'))
+      const path = join(dir, file ?? '')
+
+      // A torn write blocks duplicates only until the lease lapses, judged by mtime
+      await writeFile(path, '{"state":"compl')
+      assert.equal((await store.claim('k', 60_000))?.state, 'in_flight')
+      const old = new Date(Date.now() - 120_000)
+      await utimes(path, old, old)
+      assert.equal(await store.claim('k', 60_000), null)
+
+      // Of concurrent claims on an expired record, exactly one wins
+      await store.complete('k', { status: 200, body: {} }, -1)
+      const claims = await Promise.all([1, 2, 3, 4].map(() => new FileIdempotencyStore(dir).claim('k', 60_000)))
+      assert.equal(claims.filter((c) => c === null).length, 1)
+      assert.deepEqual(await readdir(dir), [file])
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('FileIdempotencyStore only completes claims it still holds, and prunes expired records', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'fo-idempotency-'))
+    try {
+      // A's lease lapses and B takes over: A's late result must not replace B's claim
+      const a = new FileIdempotencyStore(dir)
+      const b = new FileIdempotencyStore(dir)
+      assert.equal(await a.claim('k', -1), null)
+      assert.equal(await b.claim('k', 60_000), null)
+      await a.complete('k', { status: 200, body: 'stale' }, 60_000)
+      await a.release('k')
+      assert.equal((await new FileIdempotencyStore(dir).claim('k', 60_000))?.state, 'in_flight')
+
+      await b.complete('k', { status: 200, body: 'fresh' }, 60_000)
+      assert.equal(await b.claim('expired', 60_000), null)
+      await b.complete('expired', { status: 200, body: {} }, -1)
+      await writeFile(join(dir, 'leftover.json.1.tmp'), '')
+      const old = new Date(Date.now() - 48 * 60 * 60 * 1000)
+      await utimes(join(dir, 'leftover.json.1.tmp'), old, old)
+
+      assert.equal(await b.prune(), 2)
+      const record = await b.claim('k', 60_000)
+      assert.deepEqual(record?.state === 'completed' && record.response.body, 'fresh')
+      assert.equal((await readdir(dir)).length, 1)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  test('expired records can be claimed again', async () => {
+    const store = new MemoryIdempotencyStore()
+    await store.complete('k', { status: 200, body: {} }, -1)
+    assert.equal(await store.claim('k', 60_000), null)
+  })
+})
+
+// ─── Async actions ────────────────────────────────────────────────────────────
+
+describe('async actions', () => {
+  const SECRET = 'async-secret'
+
+  function fakeClient() {
+    const updates: Array<{ jobId: string; update: ActionJobUpdate }> = []
+    let onSettled: () => void = () => {}
+    const settled = new Promise<void>((resolve) => { onSettled = resolve })
+    const client = {
+      actions: {
+        complete: async (jobId: string, update: ActionJobUpdate) => {
+          updates.push({ jobId, update })
+          if (update.status !== 'running') onSettled()
+        },
+      },
+    }
+    return { client, updates, settled }
+  }
+
+  function signedRequest(params: Record<string, unknown>): Request {
+    const { body, headers } = createMockWebhookRequest('export_table', params, SECRET)
+    return new Request('https://example.com/actions/export_table', { method: 'POST', body, headers })
+  }
+
+  const exportTable = defineTool({
+    name: 'export_table',
+    description: 'Exports a table',
+    parameters: z.object({ table: z.string() }),
+    mode: 'async',
+    execute: async ({ table }, { progress, complete }) => {
+      await progress(50, 'half way')
+      await complete({ url: `https://files.example.com/${table}.csv` })
+    },
+  })
+
+  test('answers 202 with a job id and reports progress and the result', async () => {
+    const { client, updates, settled } = fakeClient()
+    const handler = createFetchToolHandler(exportTable, { secret: SECRET, client })
+
+    const res = await handler(signedRequest({ table: 'deals' }))
+    assert.equal(res.status, 202)
+    assert.deepEqual(await res.json(), { success: true, status: 'accepted', jobId: 'req_test_123' })
+
+    await settled
+    assert.deepEqual(updates.map((u) => u.update), [
+      { status: 'running', progress: 50, note: 'half way' },
+      { status: 'completed', result: { url: 'https://files.example.com/deals.csv' } },
+    ])
+    assert.ok(updates.every((u) => u.jobId === 'req_test_123'))
+  })
+
+  test('a thrown error fails the job', async () => {
+    const { client, updates, settled } = fakeClient()
+    const failing = defineTool({
+      name: 'export_table',
+      description: 'Exports a table',
+      parameters: z.object({ table: z.string() }),
+      mode: 'async',
+      execute: async () => {
+        throw new Error('warehouse unavailable')
+      },
+    })
+
+    const handler = createFetchToolHandler(failing, { secret: SECRET, client })
+    assert.equal((await handler(signedRequest({ table: 'deals' }))).status, 202)
+
+    await settled
+    assert.deepEqual(updates.map((u) => u.update), [
+      { status: 'failed', error: 'warehouse unavailable', code: 'internal_error' },
+    ])
+  })
+
+  test('requires a client to report through', () => {
+    assert.throws(() => createFetchToolHandler(exportTable, { secret: SECRET }), /client/)
+  })
+})
+
+// ─── Output schemas ───────────────────────────────────────────────────────────
+
+describe('output schemas', () => {
+  const SECRET = 'output-secret'
+
+  function signedRequest(params: Record<string, unknown>): Request {
+    const { body, headers } = createMockWebhookRequest('get_deal', params, SECRET)
+    return new Request('https://example.com/actions/get_deal', { method: 'POST', body, headers })
+  }
+
+  function getDeal(value: unknown) {
+    return defineTool({
+      name: 'get_deal',
+      description: 'Fetches a deal',
+      parameters: z.object({ id: z.string() }),
+      output: z.object({ id: z.string(), value: z.number() }),
+      // Deliberately loose so tests can return mismatched results
+      execute: async ({ id }) => ({ id, value }) as { id: string; value: number },
+    })
+  }
+
+  test('returns validated results', async () => {
+    const handler = createFetchToolHandler(getDeal(1200), { secret: SECRET })
+    const res = await handler(signedRequest({ id: 'd1' }))
+    assert.equal(res.status, 200)
+    assert.deepEqual(await res.json(), { success: true, result: { id: 'd1', value: 1200 } })
+  })
+
+  test('answers a typed 500 when the result does not match', async () => {
+    const handler = createFetchToolHandler(getDeal('lots'), { secret: SECRET })
+    const res = await handler(signedRequest({ id: 'd1' }))
+    assert.equal(res.status, 500)
+    const json = await res.json() as { success: boolean; code: string; details: unknown[] }
+    assert.equal(json.success, false)
+    assert.equal(json.code, 'invalid_output')
+    assert.ok(json.details.length > 0)
+  })
+
+  test('router manifest includes the output JSON Schema', () => {
+    const router = createActionRouter([getDeal(1)], { secret: SECRET })
+    assert.equal(router.manifest[0]?.output?.['type'], 'object')
+  })
+})
+
+// ─── Structured errors ────────────────────────────────────────────────────────
+
+describe('structured action errors', () => {
+  const SECRET = 'errors-secret'
+
+  async function callThrowing(error: unknown): Promise<Response> {
+    const action = defineTool({
+      name: 'update_deal',
+      description: 'Updates a deal',
+      parameters: z.object({ id: z.string() }),
+      execute: async () => {
+        throw error
+      },
+    })
+    const { body, headers } = createMockWebhookRequest('update_deal', { id: 'd1' }, SECRET)
+    const handler = createFetchToolHandler(action, { secret: SECRET })
+    return handler(new Request('https://example.com/actions/update_deal', { method: 'POST', body, headers }))
+  }
+
+  test('RetryableActionError maps to 503 with Retry-After', async () => {
+    const res = await callThrowing(new RetryableActionError('Salesforce is down', { retryAfter: 30 }))
+    assert.equal(res.status, 503)
+    assert.equal(res.headers.get('retry-after'), '30')
+    assert.deepEqual(await res.json(), {
+      success: false,
+      error: 'Salesforce is down',
+      code: 'retryable',
+      retryAfter: 30,
+    })
+  })
+
+  test('UserFacingActionError maps to 400 user_facing', async () => {
+    const res = await callThrowing(new UserFacingActionError('No deal named Acme'))
+    assert.equal(res.status, 400)
+    assert.deepEqual(await res.json(), { success: false, error: 'No deal named Acme', code: 'user_facing' })
+  })
+
+  test('ActionInputError maps to 422 invalid_input with details', async () => {
+    const res = await callThrowing(new ActionInputError('End date is before start date', { details: { field: 'end' } }))
+    assert.equal(res.status, 422)
+    const json = await res.json() as { code: string; details: unknown }
+    assert.equal(json.code, 'invalid_input')
+    assert.deepEqual(json.details, { field: 'end' })
+  })
+
+  test('other errors map to 500 internal_error', async () => {
+    const res = await callThrowing(new Error('boom'))
+    assert.equal(res.status, 500)
+    assert.deepEqual(await res.json(), { success: false, error: 'boom', code: 'internal_error' })
+  })
+
+  test('schema failures report invalid_params', async () => {
+    const router = createActionRouter([defineTool({
+      name: 'noop',
+      description: 'Does nothing',
+      parameters: z.object({ id: z.string() }),
+      execute: async () => null,
+    })], { secret: SECRET })
+
+    await withServer(router, async (url) => {
+      const { body, headers } = createMockWebhookRequest('noop', { id: 1 }, SECRET)
+      const res = await fetch(url, { method: 'POST', body, headers })
+      assert.equal(res.status, 422)
+      assert.equal((await res.json() as { code: string }).code, 'invalid_params')
+    })
+  })
+})
+
+// ─── Timeouts ────────────────────────────────────────────────────────────────
+
+describe('timeouts', () => {
+  const SECRET = 'test-secret-abc123'
+
+  test('rejects a non-positive timeoutMs', () => {
+    assert.throws(() => defineTool({
+      name: 'slow',
+      description: 'Slow action',
+      parameters: z.object({}),
+      timeoutMs: 0,
+      execute: async () => null,
+    }), /timeoutMs/)
+  })
+
+  test('aborts ctx.signal and answers 504 when the action runs too long', async () => {
+    let signal: AbortSignal | undefined
+    const action = defineTool({
+      name: 'slow',
+      description: 'Slow action',
+      parameters: z.object({}),
+      timeoutMs: 20,
+      execute: async (_params, ctx) => {
+        signal = ctx.signal
+        await new Promise((resolve) => setTimeout(resolve, 200))
+        return 'done'
+      },
+    })
+    const { body, headers } = createMockWebhookRequest('slow', {}, SECRET)
+    const handler = createFetchToolHandler(action, { secret: SECRET })
+    const res = await handler(new Request('https://example.com/actions/slow', { method: 'POST', body, headers }))
+
+    assert.equal(res.status, 504)
+    assert.deepEqual(await res.json(), {
+      success: false,
+      error: 'Action "slow" timed out after 20ms',
+      code: 'timeout',
+    })
+    assert.equal(signal?.aborted, true)
+    assert.ok(signal?.reason instanceof ActionTimeoutError)
+  })
+
+  test('aborts ctx.signal with ActionCancelledError when the request is aborted', async () => {
+    let signal: AbortSignal | undefined
+    const action = defineTool({
+      name: 'hang',
+      description: 'Waits until cancelled',
+      parameters: z.object({}),
+      execute: (_params, ctx) => {
+        signal = ctx.signal
+        return new Promise((_resolve, reject) => {
+          ctx.signal.addEventListener('abort', () => reject(ctx.signal.reason))
+        })
+      },
+    })
+    const { body, headers } = createMockWebhookRequest('hang', {}, SECRET)
+    const controller = new AbortController()
+    const handler = createFetchToolHandler(action, { secret: SECRET })
+    const pending = handler(new Request('https://example.com/actions/hang', {
+      method: 'POST',
+      body,
+      headers,
+      signal: controller.signal,
+    }))
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    controller.abort()
+
+    const res = await pending
+    assert.equal(res.status, 499)
+    assert.ok(signal?.reason instanceof ActionCancelledError)
+  })
+
+  test('normalizeConfig carries timeoutMs for deploy', () => {
+    const agent = defineAgent({
+      agent: { name: 'Atlas', email: 'atlas' },
+      actions: {
+        custom: [{
+          action: defineTool({
+            name: 'slow',
+            description: 'Slow action',
+            parameters: z.object({}),
+            timeoutMs: 5000,
+            execute: async () => null,
+          }),
+          webhookUrl: 'https://example.com/slow',
+          webhookSecret: SECRET,
+        }],
+      },
+    })
+    assert.equal(normalizeConfig(agent).customItems[0]?.timeoutMs, 5000)
+  })
+})
+
+// ─── Structured logging ──────────────────────────────────────────────────────
+
+describe('structured logging', () => {
+  const SECRET = 'test-secret-abc123'
+
+  test('createMockToolContext captures structured entries', async () => {
+    const ctx = createMockToolContext()
+    ctx.logger.warn('Slow query', { rows: 120 })
+    ctx.log('plain message')
+
+    assert.deepEqual(ctx.entries, [
+      { level: 'warn', message: 'Slow query', fields: { rows: 120 } },
+      { level: 'info', message: 'plain message', fields: {} },
+    ])
+    assert.deepEqual(ctx.logs, ['Slow query', 'plain message'])
+  })
+
+  test('handler entries carry tool, requestId, agentId and durationMs', async () => {
+    const entries: LogEntry[] = []
+    const action = defineTool({
+      name: 'query_crm',
+      description: 'Queries the CRM',
+      parameters: z.object({ id: z.string() }),
+      execute: async ({ id }, ctx) => {
+        ctx.logger.info('Looking up deal', { dealId: id })
+        return { id }
+      },
+    })
+    const { body, headers } = createMockWebhookRequest('query_crm', { id: 'd1' }, SECRET)
+    const handler = createFetchToolHandler(action, { secret: SECRET, logger: (entry) => entries.push(entry) })
+    const res = await handler(new Request('https://example.com/actions/query_crm', { method: 'POST', body, headers }))
+
+    assert.equal(res.status, 200)
+    assert.deepEqual(entries.map((e) => [e.level, e.message]), [
+      ['info', 'Looking up deal'],
+      ['info', 'Action completed'],
+    ])
+    const [first, last] = entries
+    assert.equal(first?.fields.dealId, 'd1')
+    assert.equal(first?.fields.tool, 'query_crm')
+    assert.equal(first?.fields.requestId, 'req_test_123')
+    assert.equal(first?.fields.agentId, 'test-agent')
+    assert.equal(typeof last?.fields.durationMs, 'number')
+    assert.equal(last?.fields.outcome, 'success')
+  })
+
+  test('failures are logged at error level with the error code', async () => {
+    const entries: LogEntry[] = []
+    const action = defineTool({
+      name: 'update_deal',
+      description: 'Updates a deal',
+      parameters: z.object({}),
+      execute: async () => {
+        throw new UserFacingActionError('No such deal')
+      },
+    })
+    const { body, headers } = createMockWebhookRequest('update_deal', {}, SECRET)
+    const handler = createFetchToolHandler(action, { secret: SECRET, logger: (entry) => entries.push(entry) })
+    await handler(new Request('https://example.com/actions/update_deal', { method: 'POST', body, headers }))
+
+    assert.equal(entries.length, 1)
+    assert.equal(entries[0]?.level, 'error')
+    assert.equal(entries[0]?.fields.code, 'user_facing')
+  })
+})
+
+// ─── Tracing ─────────────────────────────────────────────────────────────────
+
+describe('tracing', () => {
+  const SECRET = 'test-secret-abc123'
+  const PARENT_TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736'
+  const PARENT_SPAN_ID = '00f067aa0ba902b7'
+
+  function createTracer() {
+    const exporter = new InMemorySpanExporter()
+    const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+    return { exporter, tracer: provider.getTracer('fo-sdk-test') }
+  }
+
+  const queryCrm = defineTool({
+    name: 'query_crm',
+    description: 'Queries the CRM',
+    parameters: z.object({ id: z.string() }),
+    hitl: 'never',
+    execute: async ({ id }) => ({ id }),
+  })
+
+  test('spans verification, parsing and execute under the incoming traceparent', async () => {
+    const { exporter, tracer } = createTracer()
+    const { body, headers } = createMockWebhookRequest('query_crm', { id: 'd1' }, SECRET)
+    const handler = createFetchToolHandler(queryCrm, { secret: SECRET, tracer })
+    const res = await handler(new Request('https://example.com/actions/query_crm', {
+      method: 'POST',
+      body,
+      headers: { ...headers, traceparent: `00-${PARENT_TRACE_ID}-${PARENT_SPAN_ID}-01` },
+    }))
+    assert.equal(res.status, 200)
+
+    const spans = exporter.getFinishedSpans()
+    const root = spans.find((s) => s.name === 'fo.action')
+    assert.ok(root)
+    assert.equal(root.spanContext().traceId, PARENT_TRACE_ID)
+    assert.equal(root.parentSpanContext?.spanId, PARENT_SPAN_ID)
+    assert.deepEqual(
+      { ...root.attributes },
+      {
+        'fo.tool.name': 'query_crm',
+        'fo.request_id': 'req_test_123',
+        'fo.agent_id': 'test-agent',
+        'fo.hitl': 'never',
+        'fo.outcome': 'success',
+        'http.response.status_code': 200,
+      }
+    )
+
+    const children = spans.filter((s) => s.parentSpanContext?.spanId === root.spanContext().spanId)
+    assert.deepEqual(children.map((s) => s.name).sort(), ['fo.execute', 'fo.parse', 'fo.verify'])
+  })
+
+  test('records the error code as the outcome', async () => {
+    const { exporter, tracer } = createTracer()
+    const router = createActionRouter([queryCrm], { secret: SECRET, tracer })
+
+    await withServer(router, async (url) => {
+      const { body, headers } = createMockWebhookRequest('query_crm', { id: 'd1' }, 'wrong-secret')
+      await fetch(url, { method: 'POST', body, headers })
+    })
+
+    const root = exporter.getFinishedSpans().find((s) => s.name === 'fo.action')
+    assert.equal(root?.attributes['fo.outcome'], 'invalid_signature')
+    assert.equal(root?.status.code, 2)
+  })
+
+  test('FoClient sends traceparent for its client span', async () => {
+    const { exporter, tracer } = createTracer()
+    let received: string | undefined
+
+    await withServer(async (req, res) => {
+      received = req.headers.traceparent as string | undefined
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end('{}')
+    }, async (url) => {
+      const fo = new FoClient({ apiKey: 'fo_test', baseUrl: url, tracer })
+      await fo.triggers.fire('atlas', 'deal_created', { value: 1 })
+    })
+
+    const [span] = exporter.getFinishedSpans()
+    assert.equal(span?.name, 'fo.client POST /triggers/fire')
+    assert.equal(received, `00-${span?.spanContext().traceId}-${span?.spanContext().spanId}-01`)
+  })
+})
+
+// ─── Metrics ─────────────────────────────────────────────────────────────────
+
+describe('createMetricsRegistry', () => {
+  const SECRET = 'test-secret-abc123'
+
+  const queryCrm = defineTool({
+    name: 'query_crm',
+    description: 'Queries the CRM',
+    parameters: z.object({ id: z.string() }),
+    execute: async ({ id }) => ({ id }),
+  })
+
+  test('records calls, codes, validation and signature failures', async () => {
+    const metrics = createMetricsRegistry()
+    const router = createActionRouter([queryCrm], { secret: SECRET, metrics })
+
+    await withServer(router, async (url) => {
+      for (const [params, secret] of [
+        [{ id: 'd1' }, SECRET],
+        [{ id: 'd2' }, SECRET],
+        [{ id: 3 }, SECRET],
+        [{ id: 'd4' }, 'wrong-secret'],
+      ] as const) {
+        const { body, headers } = createMockWebhookRequest('query_crm', params, secret)
+        await fetch(url, { method: 'POST', body, headers })
+      }
+    })
+
+    const text = metrics.render()
+    assert.match(text, /^fo_action_calls_total\{action="query_crm",code="ok"\} 2$/m)
+    assert.match(text, /^fo_action_calls_total\{action="query_crm",code="invalid_params"\} 1$/m)
+    assert.match(text, /^fo_action_validation_failures_total\{action="query_crm",schema="params"\} 1$/m)
+    assert.match(text, /^fo_webhook_signature_failures_total 1$/m)
+    assert.match(text, /^fo_action_duration_seconds_count\{action="query_crm"\} 3$/m)
+    assert.match(text, /^fo_action_duration_seconds_bucket\{action="query_crm",le="\+Inf"\} 3$/m)
+    assert.match(text, /^# TYPE fo_action_duration_seconds histogram$/m)
+  })
+
+  test('serves the text format from its handlers', async () => {
+    const metrics = createMetricsRegistry({ buckets: [0.1, 1] })
+    const handler = createFetchToolHandler(queryCrm, { secret: SECRET, metrics })
+    const { body, headers } = createMockWebhookRequest('query_crm', { id: 'd1' }, SECRET)
+    await handler(new Request('https://example.com/actions/query_crm', { method: 'POST', body, headers }))
+
+    const res = metrics.fetchHandler(new Request('https://example.com/metrics'))
+    assert.match(res.headers.get('content-type') ?? '', /^text\/plain; version=0\.0\.4/)
+    const text = await res.text()
+    assert.match(text, /^fo_action_duration_seconds_bucket\{action="query_crm",le="1"\} 1$/m)
+
+    await withServer(async (req, res) => metrics.handler(req, res), async (url) => {
+      assert.equal(await (await fetch(url)).text(), text)
+    })
+  })
+})
+
+// ─── Rate limiting ───────────────────────────────────────────────────────────
+
+describe('rate limiting', () => {
+  const SECRET = 'test-secret-abc123'
+
+  function call(handler: (req: Request) => Promise<Response>, name: string) {
+    const { body, headers } = createMockWebhookRequest(name, {}, SECRET)
+    return handler(new Request(`https://example.com/actions/${name}`, { method: 'POST', body, headers }))
+  }
+
+  test('rejects invalid limits', () => {
+    assert.throws(() => defineTool({
+      name: 'query_crm',
+      description: 'Queries the CRM',
+      parameters: z.object({}),
+      rateLimit: { perMinute: 0 },
+      execute: async () => null,
+    }), /rateLimit\.perMinute/)
+  })
+
+  test('answers 429 with Retry-After once perMinute is spent', async () => {
+    const action = defineTool({
+      name: 'query_crm',
+      description: 'Queries the CRM',
+      parameters: z.object({}),
+      rateLimit: { perMinute: 2 },
+      execute: async () => 'ok',
+    })
+    const handler = createFetchToolHandler(action, { secret: SECRET })
+
+    assert.equal((await call(handler, 'query_crm')).status, 200)
+    assert.equal((await call(handler, 'query_crm')).status, 200)
+    const res = await call(handler, 'query_crm')
+    assert.equal(res.status, 429)
+    assert.equal(res.headers.get('retry-after'), '30')
+    assert.equal((await res.json() as { code: string }).code, 'rate_limited')
+  })
+
+  test('caps concurrent executions', async () => {
+    let finish: () => void = () => {}
+    const action = defineTool({
+      name: 'sync_crm',
+      description: 'Syncs the CRM',
+      parameters: z.object({}),
+      rateLimit: { concurrency: 1 },
+      execute: () => new Promise<string>((resolve) => {
+        finish = () => resolve('done')
+      }),
+    })
+    const handler = createFetchToolHandler(action, { secret: SECRET })
+
+    const first = call(handler, 'sync_crm')
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    const second = await call(handler, 'sync_crm')
+    assert.equal(second.status, 429)
+    assert.equal(second.headers.get('retry-after'), '1')
+
+    finish()
+    assert.equal((await first).status, 200)
+    const third = call(handler, 'sync_crm')
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    finish()
+    assert.equal((await third).status, 200)
+  })
+
+  test('normalizeConfig carries rateLimit for deploy', () => {
+    const agent = defineAgent({
+      agent: { name: 'Atlas', email: 'atlas' },
+      actions: {
+        custom: [{
+          action: defineTool({
+            name: 'query_crm',
+            description: 'Queries the CRM',
+            parameters: z.object({}),
+            rateLimit: { perMinute: 60, concurrency: 4 },
+            execute: async () => null,
+          }),
+          webhookUrl: 'https://example.com/query_crm',
+          webhookSecret: SECRET,
+        }],
+      },
+    })
+    assert.deepEqual(normalizeConfig(agent).customItems[0]?.rateLimit, { perMinute: 60, concurrency: 4 })
+  })
+})
+
+// ─── Request bodies ──────────────────────────────────────────────────────────
+
+describe('request body handling', () => {
+  const SECRET = 'test-secret-abc123'
+
+  const echo = defineTool({
+    name: 'echo',
+    description: 'Echoes its input',
+    parameters: z.object({ text: z.string() }),
+    execute: async ({ text }) => text,
+  })
+
+  test('rejects bodies over maxBodyBytes with 413', async () => {
+    const handler = createToolHandler(echo, { secret: SECRET, maxBodyBytes: 64 })
+    const { body, headers } = createMockWebhookRequest('echo', { text: 'x'.repeat(200) }, SECRET)
+
+    await withServer(handler, async (url) => {
+      const res = await fetch(url, { method: 'POST', body, headers })
+      assert.equal(res.status, 413)
+      assert.equal((await res.json() as { code: string }).code, 'payload_too_large')
+    })
+  })
+
+  test('stops reading a streamed body once it passes the limit', async () => {
+    const handler = createToolHandler(echo, { secret: SECRET, maxBodyBytes: 64 })
+    const { body, headers } = createMockWebhookRequest('echo', { text: 'x'.repeat(200) }, SECRET)
+
+    await withServer(handler, async (url) => {
+      // No Content-Length: the limit is enforced while streaming
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(body))
+          controller.close()
+        },
+      })
+      const res = await fetch(url, { method: 'POST', body: stream, headers, duplex: 'half' } as RequestInit)
+      assert.equal(res.status, 413)
+    })
+  })
+
+  test('requires application/json', async () => {
+    const handler = createToolHandler(echo, { secret: SECRET })
+    const { body, headers } = createMockWebhookRequest('echo', { text: 'hi' }, SECRET)
+
+    await withServer(handler, async (url) => {
+      const res = await fetch(url, { method: 'POST', body, headers: { ...headers, 'content-type': 'text/plain' } })
+      assert.equal(res.status, 415)
+      assert.equal((await res.json() as { code: string }).code, 'unsupported_media_type')
+
+      const ok = await fetch(url, {
+        method: 'POST',
+        body,
+        headers: { ...headers, 'content-type': 'application/json; charset=utf-8' },
+      })
+      assert.equal(ok.status, 200)
+    })
+  })
+
+  test('reuses a body already buffered by the framework', async () => {
+    const handler = createToolHandler(echo, { secret: SECRET })
+    const { body, headers } = createMockWebhookRequest('echo', { text: 'hi' }, SECRET)
+
+    // Simulates express.raw() / Next.js buffering the stream before the handler runs
+    const prebuffered = async (req: IncomingMessage, res: ServerResponse) => {
+      const chunks: Buffer[] = []
+      for await (const chunk of req) chunks.push(chunk as Buffer)
+      Object.assign(req, { body: Buffer.concat(chunks) })
+      await handler(req, res)
+    }
+
+    await withServer(prebuffered, async (url) => {
+      const res = await fetch(url, { method: 'POST', body, headers })
+      assert.equal(res.status, 200)
+      assert.deepEqual(await res.json(), { success: true, result: 'hi' })
+    })
+  })
+
+  test('explains when a JSON body parser already consumed the stream', async () => {
+    const handler = createToolHandler(echo, { secret: SECRET })
+    const { body, headers } = createMockWebhookRequest('echo', { text: 'hi' }, SECRET)
+
+    const parsed = async (req: IncomingMessage, res: ServerResponse) => {
+      const chunks: Buffer[] = []
+      for await (const chunk of req) chunks.push(chunk as Buffer)
+      Object.assign(req, { body: JSON.parse(Buffer.concat(chunks).toString()) })
+      await handler(req, res)
+    }
+
+    await withServer(parsed, async (url) => {
+      const res = await fetch(url, { method: 'POST', body, headers })
+      assert.equal(res.status, 400)
+      assert.match((await res.json() as { error: string }).error, /already parsed/)
+    })
+  })
+
+  test('the fetch handler enforces maxBodyBytes and the JSON content type too', async () => {
+    const handler = createFetchToolHandler(echo, { secret: SECRET, maxBodyBytes: 64 })
+    const { body, headers } = createMockWebhookRequest('echo', { text: 'x'.repeat(200) }, SECRET)
+    const url = 'https://example.com/actions/echo'
+
+    const declared = await handler(new Request(url, { method: 'POST', body, headers }))
+    assert.equal(declared.status, 413)
+    assert.equal((await declared.json() as { code: string }).code, 'payload_too_large')
+
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(body))
+        controller.close()
+      },
+    })
+    const streamed = await handler(new Request(url, { method: 'POST', body: stream, headers, duplex: 'half' } as RequestInit))
+    assert.equal(streamed.status, 413)
+
+    const text = await handler(new Request(url, { method: 'POST', body, headers: { ...headers, 'content-type': 'text/plain' } }))
+    assert.equal(text.status, 415)
+    assert.equal((await text.json() as { code: string }).code, 'unsupported_media_type')
+  })
+})
+
+// ─── Signed and encrypted payloads ───────────────────────────────────────────
+
+describe('signed and encrypted payloads', () => {
+  const SECRET = 'test-secret-abc123'
+
+  const lookupContact = defineTool({
+    name: 'lookup_contact',
+    description: 'Looks up a CRM contact',
+    parameters: z.object({ email: z.string() }),
+    execute: async ({ email }) => ({ email, phone: '+1 555 0100' }),
+  })
+
+  async function encryptedRequest(params: Record<string, unknown>, secret: string) {
+    const { payload } = createMockWebhookRequest('lookup_contact', {}, SECRET)
+    const body = JSON.stringify({ ...payload, params: {}, encryptedParams: await encryptPayload(params, secret) })
+    const { signature, timestamp } = signWebhookPayload(body, SECRET)
+    return new Request('https://example.com/actions/lookup_contact', {
+      method: 'POST',
+      body,
+      headers: { 'content-type': 'application/json', 'x-fo-signature': signature, 'x-fo-timestamp': timestamp },
+    })
+  }
+
+  test('encryptPayload round-trips and tries every active secret', async () => {
+    const envelope = await encryptPayload({ a: 1 }, 'old-secret')
+    assert.equal(envelope.alg, 'A256GCM')
+    assert.deepEqual(await decryptPayload(envelope, ['new-secret', 'old-secret']), { a: 1 })
+    await assert.rejects(decryptPayload(envelope, 'other-secret'), PayloadDecryptionError)
+  })
+
+  test("responses: 'signed' signs the body for the request it answers", async () => {
+    const handler = createToolHandler(lookupContact, { secret: SECRET, responses: 'signed' })
+    const { body, headers } = createMockWebhookRequest('lookup_contact', { email: 'jo@acme.com' }, SECRET)
+
+    await withServer(handler, async (url) => {
+      const res = await fetch(url, { method: 'POST', body, headers })
+      const text = await res.text()
+      assert.deepEqual(JSON.parse(text), { success: true, result: { email: 'jo@acme.com', phone: '+1 555 0100' } })
+      assert.deepEqual(await verifyWebhookResponse(text, res.headers, 'req_test_123', SECRET), { scheme: 'sha256', secretIndex: 0 })
+      await assert.rejects(verifyWebhookResponse(text, res.headers, 'req_other', SECRET), WebhookVerificationError)
+    })
+  })
+
+  test("decrypts encryptedParams and encrypts the response with responses: 'encrypted'", async () => {
+    const handler = createFetchToolHandler(lookupContact, { secret: SECRET, responses: 'encrypted' })
+    const res = await handler(await encryptedRequest({ email: 'jo@acme.com' }, SECRET))
+
+    assert.equal(res.status, 200)
+    assert.equal(res.headers.get('x-fo-encryption'), 'A256GCM')
+    const text = await res.text()
+    await verifyWebhookResponse(text, res.headers, 'req_test_123', SECRET)
+    assert.deepEqual(await decryptPayload(JSON.parse(text) as EncryptedPayload, SECRET), {
+      success: true,
+      result: { email: 'jo@acme.com', phone: '+1 555 0100' },
+    })
+  })
+
+  test('rejects params encrypted with another secret', async () => {
+    const handler = createFetchToolHandler(lookupContact, { secret: SECRET })
+    const res = await handler(await encryptedRequest({ email: 'jo@acme.com' }, 'other-secret'))
+    assert.equal(res.status, 400)
+    assert.equal((await res.json() as { code: string }).code, 'invalid_request')
+  })
+})
+
+// ─── Ed25519 signatures ──────────────────────────────────────────────────────
+
+describe('Ed25519 signatures', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519')
+  const PEM = publicKey.export({ type: 'spki', format: 'pem' }).toString()
+  // Raw 32-byte key: the SPKI DER minus its 12-byte prefix
+  const RAW = publicKey.export({ type: 'spki', format: 'der' }).subarray(12).toString('base64')
+
+  const ping = defineTool({
+    name: 'ping',
+    description: 'Replies pong',
+    parameters: z.object({}),
+    execute: async () => ({ pong: true }),
+  })
+
+  test('verifyWebhook accepts ed25519= signatures with a PEM or raw public key', async () => {
+    const body = '{"tool":"ping"}'
+    const { signature, timestamp } = signWebhookPayload(body, { privateKey })
+    const headers = { 'x-fo-signature': signature, 'x-fo-timestamp': timestamp }
+
+    assert.ok(signature.startsWith('ed25519='))
+    assert.deepEqual(verifyWebhook(body, headers, { publicKey: PEM }), { scheme: 'ed25519', secretIndex: 0 })
+    assert.deepEqual(await verifyWebhookAsync(body, headers, { publicKey: [PEM, RAW] }), { scheme: 'ed25519', secretIndex: 0 })
+    assert.deepEqual(verifyWebhook(body, headers, { publicKey: RAW }), { scheme: 'ed25519', secretIndex: 0 })
+    assert.deepEqual(await verifyWebhookAsync(body, headers, { publicKey: RAW }), { scheme: 'ed25519', secretIndex: 0 })
+  })
+
+  test('rejects tampered bodies and keys that did not sign', async () => {
+    const other = generateKeyPairSync('ed25519').publicKey.export({ type: 'spki', format: 'pem' }).toString()
+    const { signature, timestamp } = signWebhookPayload('{"a":1}', { privateKey })
+    const headers = { 'x-fo-signature': signature, 'x-fo-timestamp': timestamp }
+
+    assert.throws(() => verifyWebhook('{"a":2}', headers, { publicKey: PEM }), WebhookVerificationError)
+    assert.throws(() => verifyWebhook('{"a":1}', headers, { publicKey: other }), WebhookVerificationError)
+    await assert.rejects(verifyWebhookAsync('{"a":2}', headers, { publicKey: PEM }), WebhookVerificationError)
+  })
+
+  test('only accepts the schemes it has keys for', () => {
+    const body = '{}'
+    const hmac = signWebhookPayload(body, 'shared')
+    const ed = signWebhookPayload(body, { privateKey })
+
+    assert.throws(
+      () => verifyWebhook(body, { 'x-fo-signature': hmac.signature, 'x-fo-timestamp': hmac.timestamp }, { publicKey: PEM }),
+      /no webhook secret/
+    )
+    assert.throws(
+      () => verifyWebhook(body, { 'x-fo-signature': ed.signature, 'x-fo-timestamp': ed.timestamp }, 'shared'),
+      /no webhook public key/
+    )
+    assert.deepEqual(
+      verifyWebhook(body, { 'x-fo-signature': hmac.signature, 'x-fo-timestamp': hmac.timestamp }, { secret: 'shared', publicKey: PEM }),
+      { scheme: 'sha256', secretIndex: 0 }
+    )
+  })
+
+  test('handlers verify with publicKey and need a key of some kind', async () => {
+    const { body, headers } = createMockWebhookRequest('ping', {}, { privateKey })
+
+    await withServer(createToolHandler(ping, { publicKey: PEM }), async (url) => {
+      const res = await fetch(url, { method: 'POST', body, headers })
+      assert.equal(res.status, 200)
+    })
+
+    const res = await createFetchToolHandler(ping, { publicKey: RAW })(
+      new Request('https://example.com/actions/ping', { method: 'POST', body, headers })
+    )
+    assert.deepEqual(await res.json(), { success: true, result: { pong: true } })
+
+    assert.throws(() => createToolHandler(ping, {}), /secret.*publicKey/)
+    assert.throws(() => createFetchToolHandler(ping, { publicKey: PEM, responses: 'signed' }), /needs a webhook `secret`/)
+  })
+
+  test('malformed public keys fail at construction and never reject a verification', async () => {
+    const junk = `-----BEGIN PUBLIC KEY-----\n${Buffer.from('not a key at all, just junk bytes').toString('base64')}\n-----END PUBLIC KEY-----`
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 1024 }).publicKey.export({ type: 'spki', format: 'pem' }).toString()
+    assert.throws(() => createFetchToolHandler(ping, { publicKey: junk }), /publicKey\[0\] is not an Ed25519 public key/)
+    assert.throws(() => createToolHandler(ping, { publicKey: [PEM, rsa] }), /publicKey\[1\]/)
+
+    const { body, headers } = createMockWebhookRequest('ping', {}, { privateKey })
+    for (const publicKey of [junk, rsa]) {
+      await assert.rejects(verifyWebhookAsync(body, headers, { publicKey }), (err) =>
+        err instanceof WebhookVerificationError && /Invalid Ed25519 public key/.test(err.message))
+      assert.throws(() => verifyWebhook(body, headers, { publicKey }), /Invalid Ed25519 public key/)
+    }
+  })
+
+  test("defineAgent accepts signatureScheme: 'ed25519' without a webhookSecret", () => {
+    const agent = defineAgent({
+      agent: { name: 'Atlas', email: 'atlas' },
+      actions: {
+        signatureScheme: 'ed25519',
+        custom: [{ action: ping, webhookUrl: 'https://example.com/actions/ping' }],
+      },
+    })
+    assert.equal(agent.actions.custom?.[0]?.signatureScheme, 'ed25519')
+    assert.equal(normalizeConfig(agent).customItems[0]?.signatureScheme, 'ed25519')
+
+    assert.throws(() => defineAgent({
+      agent: { name: 'Atlas', email: 'atlas' },
+      actions: { custom: [{ action: ping, webhookUrl: 'https://example.com/actions/ping' }] },
+    }), /missing a webhookSecret/)
+  })
+})
+
+// ─── Approvals ───────────────────────────────────────────────────────────────
+
+describe('approvals', () => {
+  const SECRET = 'approvals-secret'
+
+  const approval: ApprovalRequest = {
+    id: 'apr_1',
+    agentId: 'test-agent',
+    tool: 'create_deal',
+    params: { value: 25000 },
+    message: createMockToolContext().message,
+    requestedAt: '2026-01-05T10:00:00.000Z',
+    status: 'pending',
+  }
+
+  function signedEvent(event: unknown, secret = SECRET) {
+    const body = JSON.stringify(event)
+    const { signature, timestamp } = signWebhookPayload(body, secret)
+    return {
+      body,
+      headers: { 'content-type': 'application/json', 'x-fo-signature': signature, 'x-fo-timestamp': timestamp },
+    }
+  }
+
+  test('createApprovalHandler dispatches requested and resolved events', async () => {
+    const seen: ApprovalEvent[] = []
+    const handler = createApprovalHandler({
+      onRequested: (_approval, event) => void seen.push(event),
+      onResolved: (_approval, event) => void seen.push(event),
+    }, { secret: SECRET })
+
+    const resolved: ApprovalEvent = {
+      type: 'approval.resolved',
+      eventId: 'evt_2',
+      approval: {
+        ...approval,
+        status: 'approved',
+        resolution: { decision: 'approved', by: 'jo@acme.com', at: '2026-01-05T10:05:00.000Z' },
+      },
+    }
+
+    await withServer(handler, async (url) => {
+      for (const event of [{ type: 'approval.requested', eventId: 'evt_1', approval }, resolved]) {
+        const res = await fetch(url, { method: 'POST', ...signedEvent(event) })
+        assert.equal(res.status, 200)
+      }
+
+      const forged = await fetch(url, { method: 'POST', ...signedEvent(resolved, 'wrong') })
+      assert.equal(forged.status, 401)
+
+      const unknown = await fetch(url, { method: 'POST', ...signedEvent({ type: 'approval.deleted', approval }) })
+      assert.equal(unknown.status, 400)
+    })
+
+    assert.deepEqual(seen.map((e) => e.type), ['approval.requested', 'approval.resolved'])
+    assert.equal(seen[1]?.type === 'approval.resolved' && seen[1].approval.resolution.by, 'jo@acme.com')
+  })
+
+  test('answers 500 when a handler throws, so Fo redelivers', async () => {
+    const handler = createApprovalHandler({
+      onRequested: () => { throw new Error('Slack is down') },
+    }, { secret: SECRET })
+
+    await withServer(handler, async (url) => {
+      const res = await fetch(url, { method: 'POST', ...signedEvent({ type: 'approval.requested', eventId: 'evt_1', approval }) })
+      assert.equal(res.status, 500)
+    })
+  })
+
+  test('FoClient.approvals lists, approves and denies', async () => {
+    const calls: Array<{ path: string | undefined; body: unknown }> = []
+
+    await withServer(async (req, res) => {
+      let raw = ''
+      for await (const chunk of req) raw += String(chunk)
+      calls.push({ path: req.url, body: JSON.parse(raw) })
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(req.url === '/approvals/list' ? { approvals: [approval] } : { approval }))
+    }, async (url) => {
+      const fo = new FoClient({ apiKey: 'fo_test', baseUrl: url })
+      assert.deepEqual(await fo.approvals.list('atlas'), [approval])
+      await fo.approvals.approve('apr_1', { by: 'jo@acme.com' })
+      await fo.approvals.deny('apr_1', { by: 'jo@acme.com', note: 'Too large' })
+      await assert.rejects(fo.approvals.deny('', { by: 'jo@acme.com' }), /approvalId is required/)
+    })
+
+    assert.deepEqual(calls, [
+      { path: '/approvals/list', body: { agentEmail: 'atlas', status: 'pending' } },
+      { path: '/approvals/approve', body: { approvalId: 'apr_1', by: 'jo@acme.com' } },
+      { path: '/approvals/deny', body: { approvalId: 'apr_1', by: 'jo@acme.com', note: 'Too large' } },
+    ])
+  })
+
+  test('defineAgent validates actions.approvals', () => {
+    const agent = (approvals: object) => defineAgent({ agent: { name: 'Atlas', email: 'atlas' }, actions: { approvals } as never })
+
+    assert.throws(() => agent({ webhookUrl: 'http://my-app.com/fo/approvals', webhookSecret: SECRET }), /must be an HTTPS URL/i)
+    assert.throws(() => agent({ webhookUrl: 'https://my-app.com/fo/approvals' }), /missing a webhookSecret/)
+    assert.doesNotThrow(() => agent({ webhookUrl: 'https://my-app.com/fo/approvals', signatureScheme: 'ed25519' }))
+
+    const norm = normalizeConfig(agent({ webhookUrl: 'https://my-app.com/fo/approvals', webhookSecret: SECRET }))
+    assert.deepEqual(norm.approvals, {
+      webhookUrl: 'https://my-app.com/fo/approvals',
+      webhookSecrets: [SECRET],
+      signatureScheme: 'sha256',
+    })
+  })
+
+  test('ctx.approval reaches execute', async () => {
+    let approvedBy: string | undefined
+    const createDeal = defineTool({
+      name: 'create_deal',
+      description: 'Creates a deal',
+      parameters: z.object({ value: z.number() }),
+      hitl: 'always',
+      execute: async (_params, ctx) => {
+        approvedBy = ctx.approval?.approvedBy
+        return { ok: true }
+      },
+    })
+
+    const grant = { id: 'apr_1', approvedBy: 'jo@acme.com', approvedAt: '2026-01-05T10:05:00.000Z' }
+    const { body, headers } = createMockWebhookRequest('create_deal', { value: 25000 }, SECRET, { approval: grant })
+    const res = await createFetchToolHandler(createDeal, { secret: SECRET })(
+      new Request('https://example.com/actions/create_deal', { method: 'POST', body, headers })
+    )
+
+    assert.equal(res.status, 200)
+    assert.equal(approvedBy, 'jo@acme.com')
+  })
+})
+
+// ─── HITL policies ───────────────────────────────────────────────────────────
+
+describe('hitl policies', () => {
+  const dealParams = z.object({ name: z.string(), value: z.number(), stage: z.string().optional() })
+
+  const createDeal = defineTool({
+    name: 'create_deal',
+    description: 'Creates a deal',
+    parameters: dealParams,
+    hitl: { when: { value: { gt: 10000 } } },
+    execute: async () => ({ ok: true }),
+  })
+
+  test('requires approval when params match `when`', () => {
+    assert.deepEqual(evaluateHitl(createDeal.hitl, { params: { name: 'Acme', value: 25000 } }), {
+      mode: 'always',
+      reasons: ['when: value gt 10000'],
+    })
+    assert.deepEqual(evaluateHitl(createDeal.hitl, { params: { name: 'Acme', value: 500 } }), { mode: 'never', reasons: [] })
+    assert.equal(evaluateHitl('auto', { params: {} }).mode, 'auto')
+  })
+
+  test('a list of condition groups matches when any group does', () => {
+    const hitl = {
+      when: [{ value: { gte: 50000 } }, { stage: { in: ['Contract', 'Closed'] }, value: { gt: 0 } }],
+      otherwise: 'auto' as const,
+    }
+    assert.equal(evaluateHitl(hitl, { params: { value: 50000 } }).mode, 'always')
+    assert.equal(evaluateHitl(hitl, { params: { value: 10, stage: 'Closed' } }).mode, 'always')
+    assert.equal(evaluateHitl(hitl, { params: { value: 0, stage: 'Closed' } }).mode, 'auto')
+    assert.equal(evaluateHitl({ when: { 'deal.owner': { exists: false } } }, { params: { deal: {} } }).mode, 'always')
+  })
+
+  test('allowSenders lets listed senders skip approval', () => {
+    const hitl = { allowSenders: ['*@acme.com', 'cfo@partner.io'] }
+    assert.equal(evaluateHitl(hitl, { params: {}, message: { from: 'Jo <JO@acme.com>' } }).mode, 'never')
+    assert.equal(evaluateHitl(hitl, { params: {}, message: { from: 'cfo@partner.io' } }).mode, 'never')
+    assert.equal(evaluateHitl(hitl, { params: {}, message: { from: 'eve@acme.com.evil.io' } }).mode, 'always')
+    assert.equal(evaluateHitl(hitl, { params: {} }).mode, 'always')
+  })
+
+  test('outsideHours evaluates in the window timezone, including overnight windows', () => {
+    const businessHours = {
+      outsideHours: { start: '09:00', end: '18:00', timezone: 'America/New_York', days: ['mon', 'tue', 'wed', 'thu', 'fri'] as const },
+    }
+    // Monday 2026-01-05 10:00 in New York is 15:00 UTC
+    assert.equal(evaluateHitl(businessHours, { params: {}, now: new Date('2026-01-05T15:00:00Z') }).mode, 'never')
+    assert.equal(evaluateHitl(businessHours, { params: {}, now: new Date('2026-01-05T23:30:00Z') }).mode, 'always')
+    // Saturday
+    assert.equal(evaluateHitl(businessHours, { params: {}, now: new Date('2026-01-10T15:00:00Z') }).mode, 'always')
+
+    const nightShift = { outsideHours: { start: '22:00', end: '06:00', days: ['fri'] as const } }
+    assert.equal(evaluateHitl(nightShift, { params: {}, now: new Date('2026-01-09T23:00:00Z') }).mode, 'never') // Fri 23:00
+    assert.equal(evaluateHitl(nightShift, { params: {}, now: new Date('2026-01-10T05:00:00Z') }).mode, 'never') // Sat 05:00
+    assert.equal(evaluateHitl(nightShift, { params: {}, now: new Date('2026-01-10T23:00:00Z') }).mode, 'always') // Sat 23:00
+  })
+
+  test('defineAction rejects malformed policies', () => {
+    const define = (hitl: unknown) => defineTool({
+      name: 'create_deal',
+      description: 'Creates a deal',
+      parameters: dealParams,
+      hitl: hitl as never,
+      execute: async () => ({}),
+    })
+
+    assert.throws(() => define('sometimes'), /invalid hitl "sometimes"/)
+    assert.throws(() => define({}), /at least one of/)
+    assert.throws(() => define({ when: { amount: { gt: 1 } } }), /unknown param "amount"/)
+    assert.throws(() => define({ when: { value: { above: 1 } } }), /unknown operator "above"/)
+    assert.throws(() => define({ when: { value: { gt: '10000' } } }), /must be a number/)
+    assert.throws(() => define({ allowSenders: ['acme.com'] }), /allowSenders/)
+    assert.throws(() => define({ outsideHours: { start: '9am', end: '18:00' } }), /'HH:MM'/)
+    assert.throws(() => define({ outsideHours: { start: '09:00', end: '18:00', timezone: 'Mars/Olympus' } }), /unknown timezone/)
+  })
+
+  test('policies serialize into the router manifest unchanged', () => {
+    const router = createActionRouter([createDeal], { secret: 'test' })
+    assert.deepEqual(JSON.parse(JSON.stringify(router.manifest[0]?.hitl)), { when: { value: { gt: 10000 } } })
+  })
+})
+
+// ─── Cron schedules ──────────────────────────────────────────────────────────
+
+describe('cron schedules', () => {
+  const iso = (dates: Date[]) => dates.map((d) => d.toISOString())
+
+  test('parseCron handles names, ranges, steps and lists', () => {
+    const cron = parseCron('*/15 9-17/4 1,15 jan-mar MON-FRI')
+    assert.deepEqual(cron.minutes, [0, 15, 30, 45])
+    assert.deepEqual(cron.hours, [9, 13, 17])
+    assert.deepEqual(cron.daysOfMonth, [1, 15])
+    assert.deepEqual(cron.months, [1, 2, 3])
+    assert.deepEqual(cron.daysOfWeek, [1, 2, 3, 4, 5])
+    assert.deepEqual(parseCron('5/20 0 * * 7').minutes, [5, 25, 45])
+    assert.deepEqual(parseCron('5/20 0 * * 7').daysOfWeek, [0])
+  })
+
+  test('parseCron rejects malformed fields', () => {
+    assert.throws(() => parseCron('0 9 * *'), /expected 5 fields/)
+    assert.throws(() => parseCron('0 9 * * MOND'), /unknown day-of-week "MOND"/)
+    assert.throws(() => parseCron('60 * * * *'), /minute 60 is out of range/)
+    assert.throws(() => parseCron('0 17-9 * * *'), /runs backwards/)
+    assert.throws(() => parseCron('*/0 * * * *'), /invalid step/)
+    assert.throws(() => parseCron('0 0 31 2 *'), /never occurs/)
+  })
+
+  test('defineSchedule rejects bad cron expressions and timezones', () => {
+    const base = { name: 'digest', prompt: 'Summarize' }
+    assert.throws(() => defineSchedule({ ...base, cron: '0 9 * * MOND' }), /invalid cron expression "0 9 \* \* MOND"/)
+    assert.throws(
+      () => defineSchedule({ ...base, cron: '0 9 * * MON', timezone: 'America/San_Francisco' }),
+      /unknown timezone "America\/San_Francisco"/
+    )
+    assert.doesNotThrow(() => defineSchedule({ ...base, cron: '0 9 * * MON', timezone: 'America/Los_Angeles' }))
+  })
+
+  test('nextRuns previews fire times in the schedule timezone', () => {
+    const from = new Date('2026-01-01T00:00:00Z') // a Thursday
+    assert.deepEqual(iso(nextRuns({ cron: '0 9 * * MON', timezone: 'America/Los_Angeles' }, 3, from)), [
+      '2026-01-05T17:00:00.000Z',
+      '2026-01-12T17:00:00.000Z',
+      '2026-01-19T17:00:00.000Z',
+    ])
+    assert.deepEqual(iso(nextRuns({ cron: '30 */12 * * *' }, 2, from)), ['2026-01-01T00:30:00.000Z', '2026-01-01T12:30:00.000Z'])
+    // Day-of-month and day-of-week both set: either matches
+    assert.deepEqual(iso(nextRuns({ cron: '0 0 13 * FRI' }, 2, from)), ['2026-01-02T00:00:00.000Z', '2026-01-09T00:00:00.000Z'])
+  })
+
+  test('nextRuns skips local times a DST change skips and fires repeated ones once', () => {
+    // 2026-03-08: New York clocks jump from 02:00 to 03:00
+    const spring = nextRuns({ cron: '30 2 * * *', timezone: 'America/New_York' }, 2, new Date('2026-03-07T12:00:00Z'))
+    assert.deepEqual(iso(spring), ['2026-03-09T06:30:00.000Z', '2026-03-10T06:30:00.000Z'])
+
+    // 2026-11-01: 01:00–02:00 happens twice
+    const fall = nextRuns({ cron: '30 1 * * *', timezone: 'America/New_York' }, 2, new Date('2026-10-31T12:00:00Z'))
+    assert.deepEqual(iso(fall), ['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z'])
+  })
+})
+
+// ─── Schedule workflows ───────────────────────────────────────────────────────
+
+describe('schedule workflows', () => {
+  const from = new Date('2026-01-01T00:00:00Z')
+  const options = { agentEmail: 'atlas', apiBase: 'https://api.foibleai.com/v1', from }
+
+  test('converts a DST timezone to a UTC cron per offset', () => {
+    const utc = toUtcSchedule({ name: 'weekly_digest', cron: '0 9 * * MON', timezone: 'America/Los_Angeles' }, from)
+    assert.deepEqual(utc.offsets, [-480, -420])
+    assert.deepEqual(utc.crons, [
+      { cron: '0 17 * * MON', offsets: [-480] },
+      { cron: '0 16 * * MON', offsets: [-420] },
+    ])
+    assert.equal(utc.needsDateCheck, false)
+
+    const yaml = renderScheduleWorkflow({ name: 'weekly_digest', cron: '0 9 * * MON', timezone: 'America/Los_Angeles' }, options)
+    assert.match(yaml, /^# fo-schedule: weekly_digest$/m)
+    assert.match(yaml, /- cron: '0 17 \* \* MON'  # UTC-08:00/)
+    assert.match(yaml, /'0 16 \* \* MON\|-0700'/)
+    assert.match(yaml, /TZ: America\/Los_Angeles/)
+    assert.match(yaml, /DST caveats/)
+    // Repeated local times run once, as nextRuns previews them
+    assert.match(yaml, /repeated when clocks go back run once/)
+    assert.match(yaml, /date -d "@\$\(\( \$\(date \+%s\) - 3600 \)\)" \+%H:%M\)" = "\$\(date \+%H:%M\)"/)
+    assert.match(yaml, /-d '\{"agentEmail":"atlas","schedule":"weekly_digest"\}'/)
+  })
+
+  test('UTC schedules pass through without a gate', () => {
+    const yaml = renderScheduleWorkflow({ name: 'nightly', cron: '30 */6 * * *' }, options)
+    assert.match(yaml, /- cron: '30 \*\/6 \* \* \*'\n/)
+    assert.doesNotMatch(yaml, /id: gate/)
+    assert.doesNotMatch(yaml, /steps\.gate/)
+  })
+
+  test('shifts weekdays across midnight and gates day-of-month on the local date', () => {
+    // 08:00 Tokyo is 23:00 UTC the day before
+    const weekly = toUtcSchedule({ name: 'standup', cron: '0 8 * * MON-FRI', timezone: 'Asia/Tokyo' }, from)
+    assert.deepEqual(weekly.crons, [{ cron: '0 23 * * 0-4', offsets: [540] }])
+    assert.equal(weekly.needsDateCheck, false)
+
+    const monthly = toUtcSchedule({ name: 'invoices', cron: '0 8 1 * *', timezone: 'Asia/Tokyo' }, from)
+    assert.deepEqual(monthly.crons, [{ cron: '0 23 * * *', offsets: [540] }])
+    assert.equal(monthly.needsDateCheck, true)
+
+    const yaml = renderScheduleWorkflow({ name: 'invoices', cron: '0 8 1 * *', timezone: 'Asia/Tokyo' }, options)
+    assert.match(yaml, /case " 1 " in \*" \$dom "\*\)/)
+  })
+
+  test('rendering is deterministic and drift is detected per file', () => {
+    const schedule = { name: 'weekly_digest', cron: '0 9 * * MON', timezone: 'Europe/London' }
+    const content = renderScheduleWorkflow(schedule, options)
+    assert.equal(renderScheduleWorkflow(schedule, options), content)
+
+    const path = scheduleWorkflowPath('weekly_digest')
+    assert.equal(path, '.github/workflows/fo-weekly_digest.yml')
+
+    const expected = [{ path, content }, { path: scheduleWorkflowPath('nightly'), content: 'x' }]
+    const existing = new Map([
+      [path, content.replace('0 9', '0 10')],
+      ['.github/workflows/fo-old.yml', '# fo-schedule: old'],
+    ])
+    assert.deepEqual(detectWorkflowDrift(expected, existing), {
+      missing: ['.github/workflows/fo-nightly.yml'],
+      outdated: [path],
+      orphaned: ['.github/workflows/fo-old.yml'],
+    })
+    assert.deepEqual(detectWorkflowDrift(expected.slice(0, 1), new Map([[path, content]])), { missing: [], outdated: [], orphaned: [] })
+  })
+})
+
+// ─── Trigger prompts ──────────────────────────────────────────────────────────
+
+describe('trigger prompts', () => {
+  const schema = z.object({
+    dealName: z.string(),
+    value: z.number(),
+    closesAt: z.string().optional(),
+    owner: z.object({ email: z.string(), name: z.string().optional() }),
+  })
+
+  test('defineTrigger rejects unknown fields, nested paths and formatters', () => {
+    const define = (prompt: string) => defineTrigger({ name: 'deal_created', schema, prompt })
+
+    assert.throws(() => define('New deal {{dealname}}'), /unknown field "dealname" \(fields are: dealName, value, closesAt, owner\)/)
+    assert.throws(() => define('Notify {{owner.emial}}'), /unknown field "owner.emial" \("owner" has: email, name\)/)
+    assert.throws(() => define('{{value.amount}}'), /unknown field "value.amount" \("value" has no fields\)/)
+    assert.throws(() => define('{{value|curency}}'), /unknown formatter "curency"/)
+    assert.throws(() => define('{{dealName|currency}}'), /formats a string with "currency", which expects number/)
+    assert.throws(() => define('{{value|currency:DOLLARS}}'), /unknown currency "DOLLARS"/)
+    assert.throws(() => define('New deal {{dealName'), /unclosed placeholder/)
+    assert.doesNotThrow(() => define('{{dealName|upper}} {{value|currency:EUR}} {{owner.email|lower}} {{value|number|upper}}'))
+  })
+
+  test('renderTriggerPrompt renders paths and formatters', () => {
+    const trigger = defineTrigger({
+      name: 'deal_created',
+      schema,
+      prompt: 'New deal "{{dealName}}" worth {{ value | currency }} ({{value|number}}), closing {{closesAt|date}}. Notify {{owner.email}} {{owner.name}}.',
+    })
+
+    assert.equal(
+      renderTriggerPrompt(trigger, { dealName: 'Acme', value: 240000, closesAt: '2026-03-31T00:00:00Z', owner: { email: 'jo@acme.com' } }),
+      'New deal "Acme" worth $240,000 (240,000), closing Mar 31, 2026. Notify jo@acme.com .'
+    )
+    assert.match(renderTriggerPrompt(trigger, { dealName: 'Acme', value: 12.5, owner: { email: 'jo@acme.com' } }), /worth \$12\.50/)
+    assert.throws(() => renderTriggerPrompt(trigger, { dealName: 'Acme' } as never), z.ZodError)
+  })
+
+  test('FoClient.triggers.fire validates payloads against the trigger schema', async () => {
+    const dealCreated = defineTrigger({ name: 'deal_created', schema, prompt: 'New deal {{dealName}}' })
+    const calls: unknown[] = []
+
+    await withServer(async (req, res) => {
+      let raw = ''
+      for await (const chunk of req) raw += String(chunk)
+      calls.push(JSON.parse(raw))
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end('{}')
+    }, async (url) => {
+      const fo = new FoClient({ apiKey: 'fo_test', baseUrl: url })
+      const payload = { dealName: 'Acme', value: 240000, owner: { email: 'jo@acme.com' } }
+      await fo.triggers.fire('atlas', dealCreated, payload)
+      await fo.triggers.bind('atlas', { dealCreated }).dealCreated(payload)
+
+      const err = await fo.triggers.fire('atlas', dealCreated, { ...payload, value: '240k' } as never).catch((e: unknown) => e)
+      assert.ok(err instanceof TriggerPayloadError)
+      assert.equal(err.triggerName, 'deal_created')
+      assert.deepEqual(err.issues.map((issue) => issue.path), [['value']])
+      assert.match(err.message, /invalid payload for trigger "deal_created" — value: Expected number, received string/)
+    })
+
+    assert.equal(calls.length, 2)
+    assert.deepEqual(calls[0], {
+      agentEmail: 'atlas',
+      triggerName: 'deal_created',
+      payload: { dealName: 'Acme', value: 240000, owner: { email: 'jo@acme.com' } },
+    })
+  })
+
+  test('normalizeConfig keeps trigger schemas for deploy as JSON Schema', () => {
+    const dealCreated = defineTrigger({ name: 'deal_created', schema, prompt: 'New deal {{dealName}}' })
+    const agent = defineAgent({ agent: { name: 'Atlas', email: 'atlas' }, triggers: [dealCreated] })
+    const [trigger] = normalizeConfig(agent).triggers
+
+    assert.equal(trigger?.schema, schema)
+    const jsonSchema = zodToJsonSchema(trigger?.schema, { target: 'jsonSchema7' }) as Record<string, unknown>
+    assert.deepEqual(jsonSchema.required, ['dealName', 'value', 'owner'])
+    assert.equal(
+      describeJsonSchema(jsonSchema),
+      '{ dealName: string, value: number, closesAt?: string, owner: { email: string, name?: string } }'
+    )
+    assert.equal(
+      describeJsonSchema(zodToJsonSchema(z.object({ stage: z.enum(['won', 'lost']), tags: z.array(z.string()).nullable() })) as Record<string, unknown>),
+      '{ stage: "won" | "lost", tags: string[] | null }'
+    )
+  })
+})
+
+// ─── Context deploy ───────────────────────────────────────────────────────────
+
+describe('context deploy', () => {
+  const fetchDiscord = defineTool({
+    name: 'fetch_discord',
+    description: 'Fetch recent Discord messages',
+    parameters: z.object({ since: z.string() }),
+    execute: async () => [],
+  })
+  const agent = (datastores: DatastoreConnector[]) => defineAgent({
+    agent: { name: 'Atlas', email: 'atlas' },
+    env: ['FO_CONTEXT_SECRET', 'NOTION_TOKEN'],
+    context: {
+      ingestionTool: { action: fetchDiscord, webhookUrl: 'https://my-app.com/context/discord', webhookSecret: { env: 'FO_CONTEXT_SECRET' } },
+      datastores,
+    },
+  })
+
+  test('sends credentials as env references', () => {
+    const norm = normalizeConfig(agent([{ type: 'notion', apiKey: { env: 'NOTION_TOKEN' }, schedule: '0 0 * * *' }]))
+    assert.ok(norm.context)
+    const { context, problems } = serializeContext(norm.context, norm.env)
+
+    assert.deepEqual(problems, [])
+    assert.deepEqual(context.datastores, [{ type: 'notion', apiKey: { env: 'NOTION_TOKEN' }, schedule: '0 0 * * *' }])
+    assert.deepEqual(context.ingestionTool?.webhookSecret, { env: 'FO_CONTEXT_SECRET' })
+    assert.equal(context.ingestionTool?.schedule, '0 * * * *')
+    assert.equal(context.ingestionTool?.parameters.type, 'object')
+  })
+
+  test('reports credentials that are values or not in the agent env', () => {
+    const norm = normalizeConfig(agent([
+      { type: 'snowflake', connectionString: { env: 'SNOWFLAKE_DSN' }, query: 'SELECT 1' },
+      { type: 'linear', apiKey: 'lin_hardcoded', schedule: '0 25 * * *' },
+      // A value that happens to equal an env var (CI=1) is still a value
+      { type: 'notion', apiKey: process.env.CI ?? '1' },
+    ]))
+    assert.ok(norm.context)
+    const { context, problems } = serializeContext(norm.context, norm.env)
+
+    assert.deepEqual(problems.map((p) => p.item), ['datastores[0] snowflake', 'datastores[1] linear', 'datastores[1] linear', 'datastores[2] notion'])
+    assert.match(problems[0]?.message ?? '', /reads SNOWFLAKE_DSN, which is not listed in the agent's env/)
+    assert.match(problems[1]?.message ?? '', /apiKey must be an env reference like \{ env: 'NAME' \}, not a value/)
+    assert.match(problems[2]?.message ?? '', /invalid schedule "0 25 \* \* \*": hour 25 is out of range/)
+    assert.match(problems[3]?.message ?? '', /apiKey must be an env reference/)
+    assert.doesNotMatch(JSON.stringify(context), /lin_hardcoded/)
+  })
+
+  test('reports a plain-string ingestion secret and rejects an empty env reference', () => {
+    const withSecret = (webhookSecret: string | { env: string }) => defineAgent({
+      agent: { name: 'Atlas', email: 'atlas' },
+      env: ['FO_CONTEXT_SECRET'],
+      context: { ingestionTool: { action: fetchDiscord, webhookUrl: 'https://my-app.com/context/discord', webhookSecret } },
+    })
+
+    const norm = normalizeConfig(withSecret('whsec_hardcoded'))
+    assert.ok(norm.context)
+    const { context, problems } = serializeContext(norm.context, norm.env)
+    assert.deepEqual(problems.map((p) => p.message), ["webhookSecret must be an env reference like { env: 'NAME' }, not a value"])
+    assert.doesNotMatch(JSON.stringify(context), /whsec_hardcoded/)
+
+    assert.throws(() => withSecret({ env: '' }), /missing a webhookSecret/)
+  })
+})
+
+// ─── trigger endpoints ────────────────────────────────────────────────────────
+
+describe('trigger endpoints', () => {
+  const STRIPE_SECRET = 'whsec_test'
+  const paymentFailed = defineTrigger({
+    name: 'payment_failed',
+    schema: z.object({ customer: z.string(), amount: z.number() }),
+    prompt: '{{customer}} missed a payment of {{amount|currency}}.',
+  })
+  const invoiceEvent = {
+    type: 'invoice.payment_failed',
+    data: { object: { customer_email: 'jo@acme.com', amount_due: 4200 } },
+  }
+  const mapInvoice = (event: any) => event.type === 'invoice.payment_failed'
+    ? { customer: event.data.object.customer_email, amount: event.data.object.amount_due / 100 }
+    : null
+
+  function fakeClient(fail = false) {
+    const fired: Array<{ agentEmail: string; trigger: string; payload: unknown }> = []
+    const client = {
+      triggers: {
+        fire: async (agentEmail: string, trigger: { name: string }, payload: unknown) => {
+          if (fail) throw new Error('Fo is down')
+          fired.push({ agentEmail, trigger: trigger.name, payload })
+          return { success: true }
+        },
+      },
+    }
+    return { client: client as any, fired }
+  }
+
+  function stripeHeaders(body: string, secret = STRIPE_SECRET, t = Math.floor(Date.now() / 1000)) {
+    const v1 = createHmac('sha256', secret).update(`${t}.${body}`).digest('hex')
+    return { 'Content-Type': 'application/json', 'Stripe-Signature': `t=${t},v1=${v1}` }
+  }
+
+  test('fires the trigger for a Stripe-signed event', async () => {
+    const { client, fired } = fakeClient()
+    const handler = createTriggerEndpoint(paymentFailed, {
+      client, agentEmail: 'atlas', verify: stripeVerifier(STRIPE_SECRET), map: mapInvoice,
+    })
+    await withServer(handler, async (url) => {
+      const body = JSON.stringify(invoiceEvent)
+      const res = await fetch(url, { method: 'POST', body, headers: stripeHeaders(body) })
+      assert.equal(res.status, 200)
+      assert.deepEqual(await res.json(), { success: true, result: { fired: true } })
+    })
+    assert.deepEqual(fired, [{ agentEmail: 'atlas', trigger: 'payment_failed', payload: { customer: 'jo@acme.com', amount: 42 } }])
+  })
+
+  test('rejects bad and stale Stripe signatures with 401', async () => {
+    const { client, fired } = fakeClient()
+    const handler = createTriggerEndpoint(paymentFailed, {
+      client, agentEmail: 'atlas', verify: stripeVerifier(STRIPE_SECRET), map: mapInvoice,
+    })
+    await withServer(handler, async (url) => {
+      const body = JSON.stringify(invoiceEvent)
+      const forged = await fetch(url, { method: 'POST', body, headers: stripeHeaders(body, 'whsec_other') })
+      assert.equal(forged.status, 401)
+      assert.equal(((await forged.json()) as { code: string }).code, 'invalid_signature')
+
+      const stale = await fetch(url, { method: 'POST', body, headers: stripeHeaders(body, STRIPE_SECRET, 1_600_000_000) })
+      assert.equal(stale.status, 401)
+      assert.match(((await stale.json()) as { error: string }).error, /too old/)
+    })
+    assert.deepEqual(fired, [])
+  })
+
+  test('verifies GitHub and generic HMAC signatures', async () => {
+    const body = JSON.stringify({ customer: 'jo@acme.com', amount: 10 })
+    const request = (headers: Record<string, string>) => ({ method: 'POST', url: 'https://example.com/hook', headers, rawBody: body })
+    const hex = createHmac('sha256', 'gh').update(body).digest('hex')
+
+    await githubVerifier('gh')(request({ 'x-hub-signature-256': `sha256=${hex}` }))
+    await githubVerifier(['new', 'gh'])(request({ 'x-hub-signature-256': `sha256=${hex}` }))
+    await assert.rejects(githubVerifier('gh')(request({ 'x-hub-signature-256': hex })), WebhookVerificationError)
+    await assert.rejects(githubVerifier('gh')(request({})), /Missing x-hub-signature-256 header/)
+
+    const b64 = createHmac('sha1', 'k').update(body).digest('base64')
+    await hmacVerifier({ header: 'X-Signature', secret: 'k', algorithm: 'SHA-1', encoding: 'base64' })(request({ 'x-signature': b64 }))
+    assert.throws(() => hmacVerifier({ header: 'x-signature', secret: '' }), /a webhook secret is required/)
+  })
+
+  test('verifies HubSpot v3 signatures over method, URL, body and timestamp', async () => {
+    const body = JSON.stringify([{ objectId: 1 }])
+    const timestamp = String(Date.now())
+    const url = 'https://example.com/webhooks/hubspot'
+    const signature = createHmac('sha256', 'hs').update(`POST${url}${body}${timestamp}`).digest('base64')
+    const headers = { 'x-hubspot-signature-v3': signature, 'x-hubspot-request-timestamp': timestamp }
+
+    await hubspotVerifier('hs')({ method: 'POST', url, headers, rawBody: body })
+    await hubspotVerifier('hs', { url })({ method: 'POST', url: 'http://internal/webhooks/hubspot', headers, rawBody: body })
+    await assert.rejects(hubspotVerifier('hs')({ method: 'POST', url: `${url}?x=1`, headers, rawBody: body }), WebhookVerificationError)
+  })
+
+  test('acknowledges events that map to null without firing', async () => {
+    const { client, fired } = fakeClient()
+    const handler = createTriggerEndpoint(paymentFailed, {
+      client, agentEmail: 'atlas', verify: stripeVerifier(STRIPE_SECRET), map: mapInvoice,
+    })
+    await withServer(handler, async (url) => {
+      const body = JSON.stringify({ type: 'invoice.paid', data: { object: {} } })
+      const res = await fetch(url, { method: 'POST', body, headers: stripeHeaders(body) })
+      assert.equal(res.status, 200)
+      assert.deepEqual(await res.json(), { success: true, result: { fired: false } })
+    })
+    assert.deepEqual(fired, [])
+  })
+
+  test('answers 422 when the mapped payload does not match the schema, 500 when firing fails', async () => {
+    const verify = () => true
+    const logs: LogEntry[] = []
+    const invalid = createFetchTriggerEndpoint(paymentFailed, { client: fakeClient().client, agentEmail: 'atlas', verify, logger: (e) => logs.push(e) })
+    const res = await invalid(new Request('https://example.com/hook', { method: 'POST', body: JSON.stringify({ customer: 'jo@acme.com' }) }))
+    assert.equal(res.status, 422)
+    assert.deepEqual(await res.json(), { success: false, error: 'Payload does not match trigger "payment_failed"', code: 'invalid_input' })
+    const issues = logs.shift()?.fields.issues as Array<{ path: string[] }>
+    assert.deepEqual(issues.map((i) => i.path), [['amount']])
+
+    const failing = createFetchTriggerEndpoint(paymentFailed, { client: fakeClient(true).client, agentEmail: 'atlas', verify, logger: (e) => logs.push(e) })
+    const failed = await failing(new Request('https://example.com/hook', { method: 'POST', body: JSON.stringify({ customer: 'jo@acme.com', amount: 1 }) }))
+    assert.equal(failed.status, 500)
+    assert.deepEqual(await failed.json(), { success: false, error: 'Failed to fire trigger', code: 'internal_error' })
+    assert.equal(logs.length, 1)
+    assert.match(String(logs[0]?.fields.err), /Fo is down/)
+  })
+
+  test('keeps map errors from the provider', async () => {
+    const logs: LogEntry[] = []
+    const handler = createTriggerEndpoint(paymentFailed, {
+      client: fakeClient().client,
+      agentEmail: 'atlas',
+      verify: () => true,
+      map: () => { throw new Error('db password rejected for user admin') },
+      logger: (e) => logs.push(e),
+    })
+    await withServer(handler, async (url) => {
+      const res = await fetch(url, { method: 'POST', body: '{}' })
+      assert.equal(res.status, 500)
+      assert.doesNotMatch(await res.text(), /password/)
+    })
+    assert.equal(logs[0]?.message, 'Failed to map webhook body')
+  })
+
+  test('the fetch endpoint enforces maxBodyBytes without buffering the body', async () => {
+    const handler = createFetchTriggerEndpoint(paymentFailed, { client: fakeClient().client, agentEmail: 'atlas', verify: () => true, maxBodyBytes: 1024 })
+
+    const declared = await handler(new Request('https://example.com/hook', {
+      method: 'POST', body: 'x'.repeat(10), headers: { 'Content-Length': '4096' },
+    }))
+    assert.equal(declared.status, 413)
+
+    let pulled = 0
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++
+        controller.enqueue(new Uint8Array(512))
+      },
+    })
+    const streamed = await handler(new Request('https://example.com/hook', { method: 'POST', body: stream, duplex: 'half' } as RequestInit))
+    assert.equal(streamed.status, 413)
+    assert.ok(pulled <= 4, `read ${pulled} chunks`)
+  })
+
+  test('requires a verifier', () => {
+    assert.throws(
+      () => createTriggerEndpoint(paymentFailed, { client: fakeClient().client, agentEmail: 'atlas' } as any),
+      /verify is required/
+    )
+  })
+})